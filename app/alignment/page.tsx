@@ -0,0 +1,218 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import VoiceInterface, { VoiceInterfaceHandle } from '@/app/components/voice/VoiceInterface';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import {
+  ALIGNMENT_INSTRUCTIONS,
+  ALIGNMENT_PROMPTS,
+  buildReflectivePrompt,
+  buildSummaryPrompt
+} from '@/app/lib/alignment/prompts';
+import { createAlignmentTools } from '@/app/lib/alignment/tools';
+import { listMotivationSummaries, saveMotivationSummary } from '@/app/lib/api/motivations';
+import { MotivationSummary, MotivationTheme } from '@/app/lib/storage/types';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+export default function AlignmentPage() {
+  // -1 until the first prompt has been asked
+  const [promptIndex, setPromptIndex] = useState(-1);
+  const [themes, setThemes] = useState<MotivationTheme[]>([]);
+  const [summary, setSummary] = useState('');
+  const [topMotivations, setTopMotivations] = useState<string[]>([]);
+  const [savedSummaries, setSavedSummaries] = useState<MotivationSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const voiceRef = useRef<VoiceInterfaceHandle | null>(null);
+
+  useEffect(() => {
+    listMotivationSummaries(getUserId())
+      .then(setSavedSummaries)
+      .catch(error => console.error('Failed to load motivation summaries:', error));
+  }, []);
+
+  // Tool handlers outlive renders; keep their view of themes current
+  const themesRef = useRef<MotivationTheme[]>([]);
+  themesRef.current = themes;
+
+  const tools = useMemo(() => createAlignmentTools({
+    onTheme: ({ theme, evidence, prompt_id }) => {
+      const exists = themesRef.current.some(t => t.theme.toLowerCase() === theme.toLowerCase());
+      const next = exists
+        ? themesRef.current
+        : [...themesRef.current, { theme, evidence, promptId: prompt_id }];
+      themesRef.current = next;
+      setThemes(next);
+      return next.length;
+    },
+    onSummary: ({ summary, top_motivations }) => {
+      setSummary(summary);
+      setTopMotivations(top_motivations);
+    }
+  }), []);
+
+  const ask = (instructions: string): boolean => {
+    const sent = voiceRef.current?.requestResponse(instructions) || false;
+    setNotice(sent ? null : 'Tap the microphone to connect to CASEY first.');
+    return sent;
+  };
+
+  const handleNextPrompt = () => {
+    const next = promptIndex + 1;
+    if (ask(buildReflectivePrompt(next, themesRef.current))) {
+      setPromptIndex(next);
+    }
+  };
+
+  const handleWrapUp = () => {
+    if (ask(buildSummaryPrompt(themesRef.current))) {
+      setPromptIndex(ALIGNMENT_PROMPTS.length);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!summary.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveMotivationSummary(getUserId(), summary.trim(), themes);
+      setSavedSummaries(prev => [saved, ...prev]);
+      setNotice('Saved to your motivations.');
+    } catch (error) {
+      console.error('Failed to save motivation summary:', error);
+      setNotice('Could not save your summary. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const current = ALIGNMENT_PROMPTS[promptIndex];
+  const isLastPrompt = promptIndex === ALIGNMENT_PROMPTS.length - 1;
+  const isWrappingUp = promptIndex >= ALIGNMENT_PROMPTS.length;
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Alignment: Motivations</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+            <div className="text-center space-y-2">
+              <p className="text-sm text-gray-500">
+                {current
+                  ? `Question ${promptIndex + 1} of ${ALIGNMENT_PROMPTS.length}`
+                  : isWrappingUp ? 'Your motivations' : `${ALIGNMENT_PROMPTS.length} reflective questions`}
+              </p>
+              <h1 className="text-2xl font-bold text-[#4169E1]">
+                {current
+                  ? current.question
+                  : isWrappingUp ? 'What drives you' : 'What really motivates you?'}
+              </h1>
+            </div>
+
+            <VoiceInterface
+              ref={voiceRef}
+              extraInstructions={ALIGNMENT_INSTRUCTIONS}
+              includeEngagement={false}
+              tools={tools}
+            />
+
+            {notice && (
+              <p className="text-center text-sm text-gray-600">{notice}</p>
+            )}
+
+            {themes.length > 0 && (
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-gray-700">Themes CASEY has noticed</h2>
+                <ul className="flex flex-wrap gap-2">
+                  {themes.map(theme => (
+                    <li
+                      key={theme.theme}
+                      title={theme.evidence}
+                      className="px-3 py-1 text-sm bg-[#E6E9FF] text-[#4169E1] border border-[#B8C5FF] rounded-full"
+                    >
+                      {theme.theme}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {isWrappingUp && (
+              <div className="space-y-3">
+                {topMotivations.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Top motivations: <span className="font-medium text-gray-800">{topMotivations.join(', ')}</span>
+                  </p>
+                )}
+                <label htmlFor="motivations-summary" className="block text-sm font-medium text-gray-700">
+                  Summary
+                </label>
+                <textarea
+                  id="motivations-summary"
+                  value={summary}
+                  onChange={event => setSummary(event.target.value)}
+                  placeholder="CASEY is writing your summary..."
+                  rows={5}
+                  className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+                />
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              {!isWrappingUp && (
+                <button
+                  onClick={isLastPrompt ? handleWrapUp : handleNextPrompt}
+                  className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all"
+                >
+                  {promptIndex < 0 ? 'Begin →' : isLastPrompt ? 'Wrap up →' : 'Next question →'}
+                </button>
+              )}
+              {isWrappingUp && (
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving || !summary.trim()}
+                  className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {isSaving ? 'Saving...' : 'Save summary'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {savedSummaries.length > 0 && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-800">Saved motivations</h2>
+              {savedSummaries.map(saved => (
+                <div key={saved.id} className="space-y-1 border-t border-gray-100 pt-3 first:border-0 first:pt-0">
+                  <p className="text-xs text-gray-500">{new Date(saved.createdAt).toLocaleDateString()}</p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{saved.summary}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StoredConversationItem, getConversationStore } from '@/app/lib/storage';
+
+function isStoredItem(value: unknown): value is StoredConversationItem {
+  const item = value as StoredConversationItem;
+  return !!item
+    && typeof item.id === 'string'
+    && typeof item.type === 'string'
+    && typeof item.createdAt === 'string';
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !body.userId) {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const items: unknown[] = Array.isArray(body.items) ? body.items : [];
+
+    if (items.length === 0 || !items.every(isStoredItem)) {
+      return NextResponse.json(
+        { error: 'items must be a non-empty array of conversation items' },
+        { status: 400 }
+      );
+    }
+
+    const store = getConversationStore();
+    const existing = await store.getConversation(id);
+    const conversation = existing && existing.userId === body.userId
+      ? await store.appendItems(id, items as StoredConversationItem[])
+      : null;
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ itemCount: conversation.items.length });
+  } catch (error) {
+    console.error('Error saving conversation items:', error);
+    return NextResponse.json(
+      { error: 'Failed to save conversation items' },
+      { status: 500 }
+    );
+  }
+}
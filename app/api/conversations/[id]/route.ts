@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore } from '@/app/lib/storage';
+
+// Another student's conversation is reported as missing, not forbidden, so
+// ids can't be probed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const conversation = await getConversationStore().getConversation(id);
+
+    if (!conversation || conversation.userId !== userId) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getConversationStore();
+    const conversation = await store.getConversation(id);
+
+    if (!conversation || conversation.userId !== userId || !(await store.deleteConversation(id))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
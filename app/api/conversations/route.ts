@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore } from '@/app/lib/storage';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const conversations = await getConversationStore().listConversations(userId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.userId || typeof body.userId !== 'string') {
+      return NextResponse.json(
+        { error: 'userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await getConversationStore().createConversation({
+      userId: body.userId,
+      title: typeof body.title === 'string' ? body.title : undefined
+    });
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to create conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEngagementStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { computeStreak, recordCheckIn } from '@/app/lib/engagement/items';
+
+// Records today's check-in; repeated calls on the same day are harmless
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const record = await getEngagementStore().updateRecord(body.userId, current => recordCheckIn(current));
+    return NextResponse.json({ streak: computeStreak(record.checkIns) });
+  } catch (error) {
+    console.error('Error recording check-in:', error);
+    return NextResponse.json(
+      { error: 'Failed to record check-in' },
+      { status: 500 }
+    );
+  }
+}
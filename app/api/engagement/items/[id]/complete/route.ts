@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeItem } from '@/app/lib/engagement/items';
+import { changeItemResponse } from '@/app/lib/engagement/route-helpers';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (!body) {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  return changeItemResponse(body.userId, id, completeItem, 'complete');
+}
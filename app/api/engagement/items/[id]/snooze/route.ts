@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { snoozeItem } from '@/app/lib/engagement/items';
+import { changeItemResponse } from '@/app/lib/engagement/route-helpers';
+
+const DEFAULT_SNOOZE_DAYS = 7;
+const MAX_SNOOZE_DAYS = 90;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (!body) {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  const days = body.days ?? DEFAULT_SNOOZE_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SNOOZE_DAYS) {
+    return NextResponse.json(
+      { error: `days must be a whole number from 1 to ${MAX_SNOOZE_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  const until = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  return changeItemResponse(body.userId, id, item => snoozeItem(item, until), 'snooze');
+}
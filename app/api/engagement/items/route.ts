@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ActionItem, getEngagementStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { DATE_PATTERN, addItem } from '@/app/lib/engagement/items';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return NextResponse.json(
+        { error: 'title is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.kind !== 'goal' && body.kind !== 'action') {
+      return NextResponse.json(
+        { error: 'kind must be "goal" or "action"' },
+        { status: 400 }
+      );
+    }
+
+    if (body.dueDate != null && (typeof body.dueDate !== 'string' || !DATE_PATTERN.test(body.dueDate))) {
+      return NextResponse.json(
+        { error: 'dueDate must be YYYY-MM-DD' },
+        { status: 400 }
+      );
+    }
+
+    let item: ActionItem | null = null;
+    await getEngagementStore().updateRecord(body.userId, (record) => {
+      const [next, created] = addItem(record, { kind: body.kind, title: body.title, dueDate: body.dueDate });
+      item = created;
+      return next;
+    });
+
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating action item:', error);
+    return NextResponse.json(
+      { error: 'Failed to create action item' },
+      { status: 500 }
+    );
+  }
+}
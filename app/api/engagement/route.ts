@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEngagementStore } from '@/app/lib/storage';
+import { computeStreak, outstandingItems } from '@/app/lib/engagement/items';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const record = await getEngagementStore().getRecord(userId);
+    const items = record?.items || [];
+
+    return NextResponse.json({
+      items,
+      outstanding: outstandingItems(items),
+      streak: computeStreak(record?.checkIns || [])
+    });
+  } catch (error) {
+    console.error('Error fetching engagement:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch goals and action items' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedbackStore, ResponseFeedback } from '@/app/lib/storage';
+
+const CSV_COLUMNS: (keyof ResponseFeedback)[] = [
+  'updatedAt',
+  'rating',
+  'comment',
+  'responseText',
+  'responseId',
+  'conversationId',
+  'itemId',
+  'userId'
+];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  const raw = value == null ? '' : String(value);
+  // Comments and response text are user and model input
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(feedback: ResponseFeedback[]): string {
+  const rows = feedback.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Disabled unless FEEDBACK_EXPORT_TOKEN is set; callers send it as a bearer
+// token or ?token=
+function isAuthorized(request: NextRequest): boolean {
+  const expected = process.env.FEEDBACK_EXPORT_TOKEN;
+  if (!expected) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization');
+  const given = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : request.nextUrl.searchParams.get('token') || '';
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Download for the content team: every rated response, newest first.
+// ?format=json|csv (default csv), optional ?rating=up|down and ?since=ISO date
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Feedback export requires a valid token' },
+      { status: 401 }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const format = params.get('format') || 'csv';
+  const rating = params.get('rating');
+  const since = params.get('since');
+
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json(
+      { error: 'format must be csv or json' },
+      { status: 400 }
+    );
+  }
+
+  if (rating !== null && rating !== 'up' && rating !== 'down') {
+    return NextResponse.json(
+      { error: 'rating must be up or down' },
+      { status: 400 }
+    );
+  }
+
+  if (since !== null && Number.isNaN(Date.parse(since))) {
+    return NextResponse.json(
+      { error: 'since must be a date' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feedback = await getFeedbackStore().listFeedback({
+      rating: rating || undefined,
+      since: since ? new Date(since).toISOString() : undefined
+    });
+
+    const filename = `casey-feedback-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new NextResponse(format === 'json' ? JSON.stringify({ feedback }, null, 2) : toCsv(feedback), {
+      headers: {
+        'Content-Type': format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to export feedback' },
+      { status: 500 }
+    );
+  }
+}
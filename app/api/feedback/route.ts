@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FeedbackRating, getFeedbackStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+function isRating(value: unknown): value is FeedbackRating {
+  return value === 'up' || value === 'down';
+}
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feedback = await getFeedbackStore().listFeedback({ userId });
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error('Error listing feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to list feedback' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.responseId !== 'string' || !isSafeId(body.responseId)) {
+      return NextResponse.json(
+        { error: 'A valid responseId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.rating !== null && !isRating(body.rating)) {
+      return NextResponse.json(
+        { error: 'rating must be "up", "down" or null' },
+        { status: 400 }
+      );
+    }
+
+    if (body.comment !== undefined &&
+        (typeof body.comment !== 'string' || body.comment.length > MAX_COMMENT_LENGTH)) {
+      return NextResponse.json(
+        { error: `comment must be text of at most ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const store = getFeedbackStore();
+    const existing = await store.getFeedback(body.responseId);
+    if (existing && existing.userId !== body.userId) {
+      return NextResponse.json(
+        { error: 'Feedback for this response belongs to another user' },
+        { status: 403 }
+      );
+    }
+
+    const feedback = await store.saveFeedback({
+      responseId: body.responseId,
+      userId: body.userId,
+      conversationId: typeof body.conversationId === 'string' ? body.conversationId : null,
+      itemId: typeof body.itemId === 'string' ? body.itemId : null,
+      rating: body.rating,
+      comment: typeof body.comment === 'string' ? body.comment.trim() : undefined,
+      responseText: typeof body.responseText === 'string' ? body.responseText : undefined
+    });
+
+    return NextResponse.json({ feedback }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('Error saving feedback:', error);
+    return NextResponse.json(
+      { error: 'Failed to save feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInterviewStore, InterviewAnswerFeedback, InterviewSeniority } from '@/app/lib/storage';
+import { averageScore } from '@/app/lib/interview/debrief';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+
+const SENIORITIES: InterviewSeniority[] = ['internship', 'entry-level', 'experienced'];
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const interviews = await getInterviewStore().listInterviews(userId);
+    return NextResponse.json({ interviews });
+  } catch (error) {
+    console.error('Error listing interviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to list interviews' },
+      { status: 500 }
+    );
+  }
+}
+
+function isAnswer(value: unknown): value is InterviewAnswerFeedback {
+  const answer = value as InterviewAnswerFeedback;
+  return typeof answer === 'object' && answer !== null &&
+    Number.isInteger(answer.questionNumber) &&
+    typeof answer.question === 'string' &&
+    Number.isInteger(answer.score) && answer.score >= 1 && answer.score <= 5 &&
+    typeof answer.strengths === 'string' &&
+    typeof answer.improvements === 'string' &&
+    (answer.timing === null || (typeof answer.timing === 'object' && typeof answer.timing.speakingMs === 'number'));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.role !== 'string' || !body.role.trim()) {
+      return NextResponse.json(
+        { error: 'role is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!SENIORITIES.includes(body.seniority)) {
+      return NextResponse.json(
+        { error: `seniority must be one of ${SENIORITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.answers) || body.answers.length === 0 || !body.answers.every(isAnswer)) {
+      return NextResponse.json(
+        { error: 'answers must be a non-empty list of scored answers' },
+        { status: 400 }
+      );
+    }
+
+    const answers: InterviewAnswerFeedback[] = body.answers;
+
+    const interview = await getInterviewStore().saveInterview({
+      userId: body.userId,
+      role: body.role.trim(),
+      seniority: body.seniority,
+      overallScore: averageScore(answers),
+      summary: typeof body.summary === 'string' ? body.summary.trim() : '',
+      answers
+    });
+
+    return NextResponse.json({ interview }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving interview:', error);
+    return NextResponse.json(
+      { error: 'Failed to save interview' },
+      { status: 500 }
+    );
+  }
+}
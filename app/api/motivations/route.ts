@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMotivationStore, MotivationTheme } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const summaries = await getMotivationStore().listSummaries(userId);
+    return NextResponse.json({ summaries });
+  } catch (error) {
+    console.error('Error listing motivation summaries:', error);
+    return NextResponse.json(
+      { error: 'Failed to list motivation summaries' },
+      { status: 500 }
+    );
+  }
+}
+
+function isTheme(value: unknown): value is MotivationTheme {
+  const theme = value as MotivationTheme;
+  return typeof theme === 'object' && theme !== null &&
+    typeof theme.theme === 'string' &&
+    typeof theme.evidence === 'string' &&
+    typeof theme.promptId === 'string';
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.summary !== 'string' || !body.summary.trim()) {
+      return NextResponse.json(
+        { error: 'summary is required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.themes !== undefined && (!Array.isArray(body.themes) || !body.themes.every(isTheme))) {
+      return NextResponse.json(
+        { error: 'themes must be a list of { theme, evidence, promptId }' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await getMotivationStore().saveSummary({
+      userId: body.userId,
+      summary: body.summary.trim(),
+      themes: body.themes || []
+    });
+
+    return NextResponse.json({ summary }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving motivation summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to save motivation summary' },
+      { status: 500 }
+    );
+  }
+}
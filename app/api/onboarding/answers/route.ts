@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOnboardingStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { applyAnswer, createProgress } from '@/app/lib/onboarding/progress';
+import { getQuestion } from '@/app/lib/onboarding/script';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.questionId !== 'string' || !getQuestion(body.questionId)) {
+      return NextResponse.json(
+        { error: 'Unknown questionId' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      return NextResponse.json(
+        { error: 'text is required' },
+        { status: 400 }
+      );
+    }
+
+    const values = Array.isArray(body.values)
+      ? body.values.filter((value: unknown): value is string => typeof value === 'string' && value.trim() !== '')
+      : [];
+
+    const progress = await getOnboardingStore().updateProgress(body.userId, current =>
+      applyAnswer(current || createProgress(body.userId), {
+        questionId: body.questionId,
+        text: body.text.trim(),
+        values: values.map((value: string) => value.trim())
+      })
+    );
+
+    return NextResponse.json({ progress });
+  } catch (error) {
+    console.error('Error saving onboarding answer:', error);
+    return NextResponse.json(
+      { error: 'Failed to save onboarding answer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOnboardingStore } from '@/app/lib/storage';
+import { createProgress } from '@/app/lib/onboarding/progress';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Students who haven't started get a fresh, unsaved record
+    const progress = await getOnboardingStore().getProgress(userId) || createProgress(userId);
+    return NextResponse.json({ progress });
+  } catch (error) {
+    console.error('Error fetching onboarding progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch onboarding progress' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await getOnboardingStore().deleteProgress(userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resetting onboarding progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset onboarding progress' },
+      { status: 500 }
+    );
+  }
+}
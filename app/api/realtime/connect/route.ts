@@ -1,40 +1,38 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createEphemeralSession } from '@/app/lib/openai/ephemeral-session';
+import { getPersona, Persona } from '@/app/lib/prompts/registry';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
+    if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured' },
         { status: 500 }
       );
     }
 
-    // For the browser client, we'll return the API key
-    // In production, you should use ephemeral tokens or a proper WebSocket proxy
+    const body = await request.json().catch(() => ({}));
+
+    let persona: Persona;
+    try {
+      persona = getPersona(typeof body.persona === 'string' ? body.persona : undefined);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Unknown persona' },
+        { status: 400 }
+      );
+    }
+
+    // Return an ephemeral client secret with the persona's instructions bound
+    // to the session, never the API key itself
+    const session = await createEphemeralSession({ instructions: persona.instructions });
+
     return NextResponse.json({
-      apiKey,
-      model: 'gpt-4o-realtime-preview-2024-12-17',
-      instructions: `You are CASEY, a helpful and encouraging career advisor for students. 
-        Your role is to:
-        - Help students explore career paths based on their interests and skills
-        - Provide information about different careers and industries
-        - Assist with job searching and application strategies
-        - Offer interview preparation and practice
-        - Guide resume and cover letter creation
-        - Give advice on professional development and networking
-        - Be supportive, encouraging, and empathetic
-        - Use simple, clear language appropriate for students
-        - Ask clarifying questions to better understand student needs
-        - Provide actionable advice and next steps
-        
-        Language capability:
-        - You can communicate fluently in multiple languages
-        - If a user asks you to speak in a different language (e.g., "Can you speak in Urdu?", "Talk to me in Spanish", "Switch to French"), immediately switch to that language
-        - Continue the conversation in the requested language until asked to switch again
-        - Maintain the same helpful, encouraging tone regardless of language
-        - If you don't know a requested language well, politely explain this in the current language`
+      clientSecret: session.clientSecret,
+      expiresAt: session.expiresAt,
+      model: session.model,
+      instructions: persona.instructions,
+      persona: { id: persona.id, version: persona.version }
     });
   } catch (error) {
     console.error('Error in realtime connect route:', error);
@@ -43,4 +41,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createEphemeralSession, DEFAULT_REALTIME_MODEL } from '@/app/lib/openai/ephemeral-session';
 
 export async function GET() {
   const apiKey = process.env.OPENAI_API_KEY;
@@ -12,14 +13,12 @@ export async function GET() {
 
   return NextResponse.json({
     status: 'ready',
-    model: 'gpt-4o-realtime-preview-2024-10-01'
+    model: DEFAULT_REALTIME_MODEL
   });
 }
 
 export async function POST(request: NextRequest) {
-  const apiKey = process.env.OPENAI_API_KEY;
-  
-  if (!apiKey) {
+  if (!process.env.OPENAI_API_KEY) {
     return NextResponse.json(
       { error: 'OpenAI API key not configured' },
       { status: 500 }
@@ -27,17 +26,31 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const body = await request.json();
+    const body = await request.json().catch(() => ({}));
+
+    // Tokens are only minted for the registry's model, on the server's key
+    if (body.model !== undefined && body.model !== DEFAULT_REALTIME_MODEL) {
+      return NextResponse.json(
+        { error: `model must be ${DEFAULT_REALTIME_MODEL}` },
+        { status: 400 }
+      );
+    }
+
+    // Mint a short-lived client secret bound to the requested session config.
+    // The long-lived API key never leaves the server.
+    const session = await createEphemeralSession(body.config || {});
     
     return NextResponse.json({
-      apiKey: apiKey,
-      config: body.config || {}
+      clientSecret: session.clientSecret,
+      expiresAt: session.expiresAt,
+      model: session.model,
+      sessionId: session.sessionId
     });
   } catch (error) {
     console.error('Error in realtime route:', error);
     return NextResponse.json(
-      { error: 'Failed to process request' },
+      { error: 'Failed to create realtime session' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
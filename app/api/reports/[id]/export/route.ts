@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportStore } from '@/app/lib/storage';
+import { reportToMarkdown } from '@/app/lib/clarity/markdown';
+
+// Markdown download. PDF is produced client-side from the report page's
+// print stylesheet, so no PDF renderer runs on the server.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const report = await getReportStore().getReport(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(reportToMarkdown(report), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="casey-clarity-${report.createdAt.slice(0, 10)}.md"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting report:', error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
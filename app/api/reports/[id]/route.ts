@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportStore } from '@/app/lib/storage';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const report = await getReportStore().getReport(id);
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error fetching report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch report' },
+      { status: 500 }
+    );
+  }
+}
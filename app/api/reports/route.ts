@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { parseReportContent } from '@/app/lib/clarity/schema';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reports = await getReportStore().listReports(userId);
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error listing reports:', error);
+    return NextResponse.json(
+      { error: 'Failed to list reports' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = parseReportContent(body.report);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Invalid report', details: result.problems },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReportStore().saveReport({ userId: body.userId, ...result.content });
+    return NextResponse.json({ report }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving report:', error);
+    return NextResponse.json(
+      { error: 'Failed to save report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumeStore, ResumeChecklistItem } from '@/app/lib/storage';
+
+const MAX_CHECKLIST_ITEMS = 30;
+
+function isChecklistItem(value: unknown): value is ResumeChecklistItem {
+  const item = value as ResumeChecklistItem;
+  return typeof item === 'object' && item !== null &&
+    typeof item.id === 'string' &&
+    typeof item.section === 'string' &&
+    typeof item.text === 'string' && item.text.trim() !== '' &&
+    typeof item.done === 'boolean';
+}
+
+// Replaces the checklist: used both for CASEY's generated list and for the
+// student ticking items off
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+
+    if (!Array.isArray(body.checklist) || body.checklist.length > MAX_CHECKLIST_ITEMS ||
+        !body.checklist.every(isChecklistItem)) {
+      return NextResponse.json(
+        { error: `checklist must be a list of at most ${MAX_CHECKLIST_ITEMS} { id, section, text, done } items` },
+        { status: 400 }
+      );
+    }
+
+    const store = getResumeStore();
+    const existing = await store.getResume(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.userId !== body.userId) {
+      return NextResponse.json(
+        { error: 'Resume belongs to another user' },
+        { status: 403 }
+      );
+    }
+
+    const resume = await store.saveChecklist(id, body.checklist);
+    return NextResponse.json({ resume });
+  } catch (error) {
+    console.error('Error saving resume checklist:', error);
+    return NextResponse.json(
+      { error: 'Failed to save resume checklist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumeStore } from '@/app/lib/storage';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const resume = await getResumeStore().getResume(id);
+
+    if (!resume) {
+      return NextResponse.json(
+        { error: 'Resume not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ resume });
+  } catch (error) {
+    console.error('Error fetching resume:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch resume' },
+      { status: 500 }
+    );
+  }
+}
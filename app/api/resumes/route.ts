@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getResumeStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { detectResumeFormat, extractResumeText, MAX_RESUME_BYTES } from '@/app/lib/resume/extract';
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const resumes = await getResumeStore().listResumes(userId);
+    return NextResponse.json({ resumes });
+  } catch (error) {
+    console.error('Error listing resumes:', error);
+    return NextResponse.json(
+      { error: 'Failed to list resumes' },
+      { status: 500 }
+    );
+  }
+}
+
+// multipart/form-data with `userId` and a `file` (PDF, DOCX or plain text).
+// Only the extracted text is stored.
+export async function POST(request: NextRequest) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { error: 'Expected a multipart form upload' },
+      { status: 400 }
+    );
+  }
+
+  const userId = form.get('userId');
+  const file = form.get('file');
+
+  if (typeof userId !== 'string' || !isSafeId(userId)) {
+    return NextResponse.json(
+      { error: 'A valid userId is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: 'file is required' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_RESUME_BYTES) {
+    return NextResponse.json(
+      { error: `Resumes must be under ${MAX_RESUME_BYTES / (1024 * 1024)} MB` },
+      { status: 413 }
+    );
+  }
+
+  const format = detectResumeFormat(file.name, file.type);
+  if (!format) {
+    return NextResponse.json(
+      { error: 'Upload a PDF, Word (.docx) or plain text file' },
+      { status: 415 }
+    );
+  }
+
+  let extracted: { text: string; truncated: boolean };
+  try {
+    extracted = await extractResumeText(Buffer.from(await file.arrayBuffer()), format);
+  } catch (error) {
+    console.error('Error extracting resume text:', error);
+    return NextResponse.json(
+      { error: 'Could not read that file. Try exporting it as PDF or plain text.' },
+      { status: 422 }
+    );
+  }
+
+  if (!extracted.text) {
+    return NextResponse.json(
+      { error: 'No text found in that file. Scanned resumes need to be converted to text first.' },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const resume = await getResumeStore().saveResume({
+      userId,
+      fileName: file.name,
+      format,
+      text: extracted.text,
+      truncated: extracted.truncated
+    });
+
+    return NextResponse.json({ resume }, { status: 201 });
+  } catch (error) {
+    console.error('Error saving resume:', error);
+    return NextResponse.json(
+      { error: 'Failed to save resume' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getVoiceSettingsStore } from '@/app/lib/storage';
+import { isSafeId } from '@/app/lib/storage/json-directory';
+import { isValidVad, isVadPreset, TurnMode, VAD_LIMITS } from '@/app/lib/openai/turn-detection';
+
+const TURN_MODES: TurnMode[] = ['server_vad', 'push_to_talk'];
+
+export async function GET(request: NextRequest) {
+  const userId = request.nextUrl.searchParams.get('userId');
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // null until the student changes something; the client uses defaults
+    const settings = await getVoiceSettingsStore().getSettings(userId);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error fetching voice settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch voice settings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (typeof body.userId !== 'string' || !isSafeId(body.userId)) {
+      return NextResponse.json(
+        { error: 'A valid userId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!TURN_MODES.includes(body.turnMode)) {
+      return NextResponse.json(
+        { error: `turnMode must be one of ${TURN_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.vadPreset !== 'custom' && !isVadPreset(body.vadPreset)) {
+      return NextResponse.json(
+        { error: 'vadPreset must be a known preset or "custom"' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidVad(body.vad)) {
+      const ranges = Object.entries(VAD_LIMITS).map(([key, { min, max }]) => `${key} ${min}-${max}`);
+      return NextResponse.json(
+        { error: `vad must have ${ranges.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof body.skipSilence !== 'boolean') {
+      return NextResponse.json(
+        { error: 'skipSilence must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const settings = await getVoiceSettingsStore().saveSettings({
+      userId: body.userId,
+      turnMode: body.turnMode,
+      vadPreset: body.vadPreset,
+      vad: {
+        threshold: body.vad.threshold,
+        prefix_padding_ms: body.vad.prefix_padding_ms,
+        silence_duration_ms: body.vad.silence_duration_ms
+      },
+      skipSilence: body.skipSilence
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error saving voice settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save voice settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import { getReport, reportExportUrl } from '@/app/lib/api/reports';
+import { CareerPathReport } from '@/app/lib/storage/types';
+
+function SkillList({ title, items }: { title: string; items: string[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700">{title}</h4>
+      {items.length > 0 ? (
+        <ul className="list-disc list-inside text-gray-700">
+          {items.map(item => <li key={item}>{item}</li>)}
+        </ul>
+      ) : (
+        <p className="text-gray-500 italic">None identified</p>
+      )}
+    </div>
+  );
+}
+
+export default function ClarityReportPage() {
+  const { id } = useParams<{ id: string }>();
+  const [report, setReport] = useState<CareerPathReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getReport(id)
+      .then(setReport)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load the report'));
+  }, [id]);
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-4 sm:px-6 py-8 max-w-3xl space-y-8">
+        <div className="flex items-center justify-between gap-4 print:hidden">
+          <Link href="/clarity" className="text-[#4169E1] font-medium hover:underline">
+            ← All reports
+          </Link>
+          {report && (
+            <div className="flex gap-3">
+              <a
+                href={reportExportUrl(report.id)}
+                className="px-4 py-2 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+              >
+                Download Markdown
+              </a>
+              <button
+                onClick={() => window.print()}
+                className="px-4 py-2 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all"
+              >
+                Save as PDF
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-[var(--radius-sm)]">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {!report && !error && <p className="text-gray-600">Loading report...</p>}
+
+        {report && (
+          <article className="space-y-8">
+            <header className="space-y-4">
+              <CaseyLogo size="small" />
+              <h1 className="text-3xl font-bold text-[#4169E1]">Clarity Report</h1>
+              <p className="text-sm text-gray-500">
+                Generated {new Date(report.createdAt).toLocaleDateString('en-US', { dateStyle: 'long' })}
+              </p>
+              <p className="text-lg text-gray-700">{report.summary}</p>
+            </header>
+
+            <section className="space-y-6">
+              <h2 className="text-2xl font-semibold text-gray-800">Career paths</h2>
+              {report.paths.map((path, index) => (
+                <div
+                  key={path.title}
+                  className="p-5 border border-[#B8C5FF] rounded-[var(--radius-md)] space-y-4 break-inside-avoid"
+                >
+                  <h3 className="text-xl font-semibold text-[#4169E1]">{index + 1}. {path.title}</h3>
+                  <p className="text-gray-700">{path.fit}</p>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <SkillList title="Skills needed" items={path.requiredSkills} />
+                    <SkillList title="Gaps to close" items={path.skillGaps} />
+                  </div>
+                  <SkillList title="Next steps" items={path.nextSteps} />
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-3 break-inside-avoid">
+              <h2 className="text-2xl font-semibold text-gray-800">Your next steps</h2>
+              <ol className="list-decimal list-inside space-y-1 text-gray-700">
+                {report.nextSteps.map(step => <li key={step}>{step}</li>)}
+              </ol>
+            </section>
+          </article>
+        )}
+      </div>
+    </main>
+  );
+}
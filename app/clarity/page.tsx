@@ -0,0 +1,112 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import { listReports, saveReport } from '@/app/lib/api/reports';
+import { ClarityStatus, generateCareerReport } from '@/app/lib/clarity/generate';
+import { CareerPathReport } from '@/app/lib/storage/types';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+const STATUS_TEXT: Record<ClarityStatus, string> = {
+  gathering: 'Reviewing your profile and conversations...',
+  connecting: 'Connecting to CASEY...',
+  writing: 'CASEY is writing your report...',
+  retrying: 'Tidying up the report...'
+};
+
+export default function ClarityPage() {
+  const router = useRouter();
+  const [reports, setReports] = useState<CareerPathReport[]>([]);
+  const [status, setStatus] = useState<ClarityStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listReports(getUserId())
+      .then(setReports)
+      .catch(err => console.error('Failed to load reports:', err));
+  }, []);
+
+  const handleGenerate = async () => {
+    setError(null);
+    try {
+      const userId = getUserId();
+      const content = await generateCareerReport(userId, setStatus);
+      const report = await saveReport(userId, content);
+      router.push(`/clarity/${report.id}`);
+    } catch (err) {
+      console.error('Failed to generate report:', err);
+      setError(err instanceof Error ? err.message : 'Could not generate your report');
+      setStatus(null);
+    }
+  };
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Clarity</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6 text-center">
+            <h1 className="text-2xl font-bold text-[#4169E1]">Your career-path report</h1>
+            <p className="text-gray-600">
+              CASEY turns your profile, motivations and coaching conversations into candidate career paths,
+              the skills they need, your gaps and concrete next steps.
+            </p>
+
+            {status && (
+              <p className="text-gray-700 font-medium animate-pulse" role="status">{STATUS_TEXT[status]}</p>
+            )}
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-[var(--radius-sm)]">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+
+            <button
+              onClick={handleGenerate}
+              disabled={status !== null}
+              className="w-full px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {status ? 'Generating...' : 'Generate a new report'}
+            </button>
+          </div>
+
+          {reports.length > 0 && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-3">
+              <h2 className="text-lg font-semibold text-gray-800">Past reports</h2>
+              <ul className="space-y-2">
+                {reports.map(report => (
+                  <li key={report.id}>
+                    <Link href={`/clarity/${report.id}`} className="block hover:underline text-[#4169E1]">
+                      {new Date(report.createdAt).toLocaleDateString()} · {report.paths.map(path => path.title).join(', ')}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { saveFeedback } from '@/app/lib/api/feedback';
+import { FeedbackRating } from '@/app/lib/storage/types';
+import { TranscriptMessage } from '@/app/lib/utils/transcript';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+interface ResponseFeedbackProps {
+  // A completed assistant message with a responseId
+  message: TranscriptMessage;
+  conversationId: string | null;
+}
+
+export default function ResponseFeedback({ message, conversationId }: ResponseFeedbackProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+
+  const submit = async (nextRating: FeedbackRating | null, nextComment?: string) => {
+    setStatus('saving');
+    try {
+      await saveFeedback({
+        userId: getUserId(),
+        responseId: message.responseId!,
+        rating: nextRating,
+        comment: nextComment,
+        conversationId,
+        itemId: message.id,
+        responseText: message.text
+      });
+      setStatus('saved');
+    } catch (error) {
+      console.error('Failed to save feedback:', error);
+      setStatus('failed');
+    }
+  };
+
+  const handleRate = (value: FeedbackRating) => {
+    // Tapping the same thumb again clears it
+    const next = rating === value ? null : value;
+    setRating(next);
+    // Ask what went wrong on a thumbs down
+    setIsCommenting(next === 'down');
+    submit(next);
+  };
+
+  const handleComment = async () => {
+    await submit(rating, comment.trim());
+    setIsCommenting(false);
+  };
+
+  const thumbClass = (value: FeedbackRating) => `
+    p-1 rounded-full transition-all
+    ${rating === value ? 'text-[#4169E1] bg-white' : 'text-gray-400 hover:text-[#4169E1]'}
+  `;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => handleRate('up')}
+          className={thumbClass('up')}
+          aria-label="Helpful response"
+          aria-pressed={rating === 'up'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M7 11v9H4v-9h3zm0 0l4-8a2 2 0 012 2v4h5a2 2 0 012 2.3l-1.2 7A2 2 0 0116.8 20H7" />
+          </svg>
+        </button>
+        <button
+          onClick={() => handleRate('down')}
+          className={thumbClass('down')}
+          aria-label="Unhelpful response"
+          aria-pressed={rating === 'down'}
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M17 13V4h3v9h-3zm0 0l-4 8a2 2 0 01-2-2v-4H6a2 2 0 01-2-2.3l1.2-7A2 2 0 017.2 4H17" />
+          </svg>
+        </button>
+        {!isCommenting && (
+          <button
+            onClick={() => setIsCommenting(true)}
+            className="text-xs text-gray-500 hover:text-[#4169E1] ml-1"
+          >
+            Add a comment
+          </button>
+        )}
+        {status === 'saved' && <span className="text-xs text-gray-500 ml-auto">Thanks for the feedback</span>}
+        {status === 'failed' && <span className="text-xs text-red-600 ml-auto">Couldn&apos;t save feedback</span>}
+      </div>
+
+      {isCommenting && (
+        <div className="space-y-2">
+          <textarea
+            value={comment}
+            onChange={event => setComment(event.target.value)}
+            placeholder="What could CASEY have done better?"
+            aria-label="Feedback comment"
+            rows={2}
+            maxLength={2000}
+            className="w-full p-2 text-sm bg-white border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsCommenting(false)}
+              className="px-3 py-1 text-xs text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleComment}
+              disabled={status === 'saving' || !comment.trim()}
+              className="px-3 py-1 text-xs bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+
+export type ReplyMode = 'voice' | 'text';
+
+interface TextComposerProps {
+  onSend: (text: string, replyMode: ReplyMode) => void;
+  disabled?: boolean;
+  // Off where text output is shown somewhere other than the transcript
+  allowTextReplies?: boolean;
+}
+
+export default function TextComposer({ onSend, disabled, allowTextReplies = true }: TextComposerProps) {
+  const [text, setText] = useState('');
+  const [replyMode, setReplyMode] = useState<ReplyMode>('voice');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message, allowTextReplies ? replyMode : 'voice');
+    setText('');
+  };
+
+  const modeClass = (mode: ReplyMode) => `
+    px-3 py-1 rounded-full transition-all
+    ${replyMode === mode ? 'bg-[#4169E1] text-white' : 'text-gray-600 hover:text-[#4169E1]'}
+  `;
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-md space-y-2">
+      <div className="flex gap-2">
+        <input
+          value={text}
+          onChange={event => setText(event.target.value)}
+          placeholder="Type a message to CASEY"
+          aria-label="Message to CASEY"
+          className="flex-1 p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="px-5 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:opacity-50"
+        >
+          Send
+        </button>
+      </div>
+
+      {allowTextReplies && (
+        <div className="flex items-center gap-2 text-sm" role="radiogroup" aria-label="How CASEY replies">
+          <span className="text-gray-600">Reply with</span>
+          <button
+            type="button"
+            role="radio"
+            aria-checked={replyMode === 'voice'}
+            onClick={() => setReplyMode('voice')}
+            className={modeClass('voice')}
+          >
+            Voice
+          </button>
+          <button
+            type="button"
+            role="radio"
+            aria-checked={replyMode === 'text'}
+            onClick={() => setReplyMode('text')}
+            className={modeClass('text')}
+          >
+            Text only
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
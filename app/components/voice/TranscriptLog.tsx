@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { TranscriptMessage } from '@/app/lib/utils/transcript';
+import ResponseFeedback from './ResponseFeedback';
+
+interface TranscriptLogProps {
+  messages: TranscriptMessage[];
+  // Shows thumbs and comment controls under finished CASEY turns
+  enableFeedback?: boolean;
+  conversationId?: string | null;
+}
+
+export default function TranscriptLog({ messages, enableFeedback = false, conversationId = null }: TranscriptLogProps) {
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages]);
+
+  const visible = messages.filter(message => message.role !== 'system');
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="w-full max-w-md max-h-80 overflow-y-auto space-y-3 pr-1"
+      role="log"
+      aria-live="polite"
+      aria-label="Conversation transcript"
+    >
+      {visible.map(message => {
+        const isUser = message.role === 'user';
+        const text = message.status === 'failed'
+          ? '(Could not transcribe audio)'
+          : message.text || (isUser ? 'Transcribing…' : '…');
+
+        return (
+          <div key={message.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'} animate-fadeIn`}>
+            <div
+              className={`
+                max-w-[85%] p-3 rounded-[var(--radius-sm)] border
+                ${isUser
+                  ? 'bg-gray-50 border-gray-200'
+                  : 'bg-[#E6E9FF] border-[#B8C5FF]'
+                }
+              `}
+            >
+              <h3 className={`text-xs font-semibold mb-1 ${isUser ? 'text-gray-600' : 'text-[#4169E1]'}`}>
+                {isUser ? 'You' : 'CASEY'}
+              </h3>
+              <p className={`whitespace-pre-wrap ${message.text ? 'text-gray-800' : 'text-gray-400 italic'}`}>
+                {text}
+              </p>
+              {enableFeedback && !isUser && message.responseId && message.status === 'completed' && (
+                <ResponseFeedback message={message} conversationId={conversationId} />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <div ref={bottomRef} />
+    </div>
+  );
+}
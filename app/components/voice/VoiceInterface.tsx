@@ -1,18 +1,81 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { Ref, useState, useEffect, useImperativeHandle, useRef, useCallback } from 'react';
 import { useRealtimeAPI } from '@/app/lib/hooks/useRealtimeAPI';
+import { RealtimeTool } from '@/app/lib/openai/tools';
+import { getVoiceSettings, saveVoiceSettings } from '@/app/lib/api/voice-settings';
+import { DEFAULT_VAD_PRESET, localVadFor, TurnMode, VadPreset, VadSettings } from '@/app/lib/openai/turn-detection';
+import { SaveVoiceSettingsInput } from '@/app/lib/storage/types';
+import { Modality } from '@/app/lib/types/realtime';
 import { AudioCapture, AudioPlayer } from '@/app/lib/utils/audio';
+import { getUserId } from '@/app/lib/utils/user-id';
+import TextComposer, { ReplyMode } from './TextComposer';
+import TranscriptLog from './TranscriptLog';
+import VoiceSettingsPanel from './VoiceSettingsPanel';
+
+const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+};
+
+// How long calibration listens to the room
+const CALIBRATION_MS = 3000;
+// Settings are saved once a slider stops moving
+const SAVE_SETTINGS_DELAY_MS = 500;
+
+// Lets a page drive the conversation, e.g. to have CASEY ask the next question
+export interface VoiceInterfaceHandle {
+  sendText: (text: string, modalities?: Modality[]) => boolean;
+  requestResponse: (instructions?: string, modalities?: Modality[]) => boolean;
+  addContext: (text: string) => void;
+}
 
 interface VoiceInterfaceProps {
-  apiKey?: string;
+  ref?: Ref<VoiceInterfaceHandle>;
+  // Mode-specific guidance added to CASEY's instructions
+  extraInstructions?: string;
+  includeProfile?: boolean;
+  includeEngagement?: boolean;
+  tools?: RealtimeTool[];
+  onTranscript?: (text: string) => void;
+  onSpeechStarted?: (audioStartMs: number) => void;
+  onSpeechStopped?: (audioEndMs: number) => void;
+  // Off while the page decides when CASEY speaks; see useRealtimeAPI
+  autoRespond?: boolean;
+  onTextDelta?: (delta: string, responseId: string) => void;
+  onTextDone?: (text: string, responseId: string) => void;
+  onResponseDone?: (responseId: string, status: string) => void;
+  showTextResponses?: boolean;
 }
 
-export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfaceProps) {
-  const [apiKey, setApiKey] = useState<string>('');
+export default function VoiceInterface({
+  ref,
+  extraInstructions,
+  includeProfile,
+  includeEngagement,
+  tools,
+  onTranscript,
+  onSpeechStarted,
+  onSpeechStopped,
+  autoRespond,
+  onTextDelta,
+  onTextDone,
+  onResponseDone,
+  showTextResponses
+}: VoiceInterfaceProps) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioLevel, setAudioLevel] = useState(0);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isMicOpen, setIsMicOpen] = useState(false);
+  const [vadPreset, setVadPreset] = useState<VadPreset | 'custom'>(DEFAULT_VAD_PRESET);
+  const [skipSilence, setSkipSilence] = useState(false);
+  // Whether captured audio is gated, and speech as the local gate hears it,
+  // ahead of the server's own detection
+  const [isGating, setIsGating] = useState(false);
+  const [isHearingSpeech, setIsHearingSpeech] = useState(false);
   
   const audioCapture = useRef<AudioCapture | null>(null);
   const audioPlayer = useRef<AudioPlayer | null>(null);
@@ -20,37 +83,61 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Typed messages waiting for the session to finish connecting
+  const queuedTextRef = useRef<{ text: string; modalities: Modality[] }[]>([]);
 
   const {
     isConnected,
     isListening,
     isSpeaking,
-    transcript,
-    response,
+    isResuming,
+    isReconnecting,
+    microphoneTrack,
+    messages,
+    conversationId,
     connect,
     disconnect,
+    turnMode,
+    setTurnMode,
+    vad,
+    setVad,
     startListening,
     stopListening,
     sendAudio,
+    sendText,
+    requestResponse,
+    addContext,
     cancelResponse,
     clearConversation
   } = useRealtimeAPI({
-    apiKey: apiKey || '',
+    extraInstructions,
+    includeProfile,
+    includeEngagement,
+    tools,
     onTranscript: (text) => {
       console.log('Transcript:', text);
+      onTranscript?.(text);
     },
+    onSpeechStarted,
+    onSpeechStopped,
+    autoRespond,
+    onTextDelta,
+    onTextDone,
+    onResponseDone,
+    showTextResponses,
     onResponse: (text) => {
       console.log('Response:', text);
     },
-    onAudioResponse: async (audioData) => {
+    onAudioResponse: (audioData, itemId) => {
       if (audioPlayer.current && audioData) {
         try {
-          await audioPlayer.current.playBase64Audio(audioData);
+          audioPlayer.current.playBase64Audio(audioData, itemId);
         } catch (error) {
           console.error('Error playing audio:', error);
         }
       }
     },
+    playback: () => audioPlayer.current,
     onError: (error) => {
       console.error('API Error:', error);
       const errorMessage = error instanceof Error ? error.message : 'An error occurred';
@@ -59,42 +146,86 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
     debug: true
   });
 
-  useEffect(() => {
-    const fetchApiKey = async () => {
-      if (propApiKey) {
-        setApiKey(propApiKey);
-        return;
-      }
+  // Latest settings to save; changes merge in as they happen
+  const settingsRef = useRef<Omit<SaveVoiceSettingsInput, 'userId'>>({ turnMode, vadPreset, vad, skipSilence });
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-      try {
-        const response = await fetch('/api/realtime', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ config: {} })
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          setApiKey(data.apiKey);
-        } else {
-          throw new Error('Failed to fetch API configuration');
-        }
-      } catch (error) {
-        console.error('Error fetching API key:', error);
-        setError('Failed to initialize API connection');
-      }
-    };
+  const persistSettings = (change: Partial<Omit<SaveVoiceSettingsInput, 'userId'>>) => {
+    settingsRef.current = { ...settingsRef.current, ...change };
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = setTimeout(() => {
+      saveVoiceSettings({ userId: getUserId(), ...settingsRef.current })
+        .catch(err => console.error('Failed to save voice settings:', err));
+    }, SAVE_SETTINGS_DELAY_MS);
+  };
 
-    fetchApiKey();
-  }, [propApiKey]);
+  useEffect(() => {
+    getVoiceSettings(getUserId())
+      .then(settings => {
+        if (!settings) return;
+        // Saved before skipping silence existed: off
+        const savedSkipSilence = settings.skipSilence === true;
+        settingsRef.current = {
+          turnMode: settings.turnMode,
+          vadPreset: settings.vadPreset,
+          vad: settings.vad,
+          skipSilence: savedSkipSilence
+        };
+        setTurnMode(settings.turnMode);
+        setVad(settings.vad);
+        setVadPreset(settings.vadPreset);
+        setSkipSilence(savedSkipSilence);
+      })
+      .catch(err => console.error('Failed to load voice settings:', err));
+  }, [setTurnMode, setVad]);
+
+  useImperativeHandle(
+    ref,
+    () => ({ sendText, requestResponse, addContext }),
+    [sendText, requestResponse, addContext]
+  );
 
   useEffect(() => {
-    if (apiKey && !isInitialized) {
+    if (!isInitialized) {
       audioCapture.current = new AudioCapture();
       audioPlayer.current = new AudioPlayer();
       setIsInitialized(true);
     }
-  }, [apiKey, isInitialized]);
+  }, [isInitialized]);
+
+  // Instructions and history are only in place once the session reports connected
+  useEffect(() => {
+    if (!isConnected) return;
+    const queued = queuedTextRef.current;
+    queuedTextRef.current = [];
+    queued.forEach(({ text, modalities }) => sendText(text, modalities));
+  }, [isConnected, sendText]);
+
+  const handleSendText = async (text: string, replyMode: ReplyMode) => {
+    const modalities: Modality[] = replyMode === 'text' ? ['text'] : ['text', 'audio'];
+    if (isConnected) {
+      sendText(text, modalities);
+      return;
+    }
+
+    queuedTextRef.current.push({ text, modalities });
+    if (isConnecting || isReconnecting) return;
+
+    setError(null);
+    setIsConnecting(true);
+    try {
+      // Typing shouldn't need the microphone
+      await connect({ microphone: false });
+    } catch (err) {
+      console.error('Error connecting for text chat:', err);
+      queuedTextRef.current = [];
+      setError(err instanceof Error ? err.message : 'Unable to connect to CASEY');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
 
   const visualizeAudio = useCallback(() => {
     if (!analyserRef.current) return;
@@ -108,7 +239,52 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
     animationFrameRef.current = requestAnimationFrame(visualizeAudio);
   }, []);
 
-  const handleStartListening = async () => {
+  const startLevelMeter = (stream: MediaStream) => {
+    audioContextRef.current = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    analyserRef.current = audioContextRef.current.createAnalyser();
+    analyserRef.current.fftSize = 256;
+
+    const source = audioContextRef.current.createMediaStreamSource(stream);
+    source.connect(analyserRef.current);
+    visualizeAudio();
+  };
+
+  const stopLevelMeter = () => {
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+
+    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
+      audioContextRef.current.close();
+    }
+    audioContextRef.current = null;
+    analyserRef.current = null;
+    setAudioLevel(0);
+  };
+
+  // Push-to-talk never gates: only the held turn is sent anyway. Neither does
+  // a WebRTC microphone track, which bypasses the captured audio.
+  const startCapture = async (stream: MediaStream, enabled: boolean) => {
+    const gate = enabled && !microphoneTrack;
+    setIsGating(gate);
+    setIsHearingSpeech(false);
+    await audioCapture.current?.startCapture((audioData) => {
+      sendAudio(audioData);
+    }, {
+      stream,
+      localVad: gate
+        ? {
+            ...localVadFor(vad),
+            onSpeechStart: () => setIsHearingSpeech(true),
+            onSpeechEnd: () => setIsHearingSpeech(false)
+          }
+        : undefined
+    });
+  };
+
+  // Opens the mic for capture and the level meter; false if it failed
+  const openMicrophone = async (): Promise<boolean> => {
     try {
       setError(null);
 
@@ -116,61 +292,49 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         await connect();
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 24000,
-        }
-      });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE_CONSTRAINTS });
 
       streamRef.current = stream;
+      startLevelMeter(stream);
 
-      audioContextRef.current = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 256;
-
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyserRef.current);
-
-      if (audioCapture.current) {
-        await audioCapture.current.startCapture((audioData) => {
-          sendAudio(audioData);
-        });
-      }
+      await startCapture(stream, skipSilence && turnMode === 'server_vad');
 
-      startListening();
-      visualizeAudio();
+      setIsMicOpen(true);
+      return true;
     } catch (err) {
       console.error('Error starting listening:', err);
       const errorMessage = err instanceof Error ? err.message : 'Unable to access microphone';
       setError(errorMessage);
+      return false;
     }
   };
 
-  const handleStopListening = () => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
+  const closeMicrophone = () => {
+    stopLevelMeter();
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
 
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-
     if (audioCapture.current) {
       audioCapture.current.stopCapture();
     }
 
+    setIsMicOpen(false);
+    setIsGating(false);
+    setIsHearingSpeech(false);
+  };
+
+  const handleStartListening = async () => {
+    if (await openMicrophone()) {
+      startListening();
+    }
+  };
+
+  const handleStopListening = () => {
+    closeMicrophone();
     stopListening();
-    setAudioLevel(0);
   };
 
   const toggleListening = () => {
@@ -181,6 +345,131 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
     }
   };
 
+  // Push-to-talk: the mic stays open between turns, and only audio sent
+  // while the button or space bar is held reaches CASEY
+  const isHoldingRef = useRef(false);
+
+  const handleTalkStart = async () => {
+    if (isHoldingRef.current) return;
+    isHoldingRef.current = true;
+
+    if (!streamRef.current && !(await openMicrophone())) {
+      isHoldingRef.current = false;
+      return;
+    }
+    // Released while the mic was opening
+    if (isHoldingRef.current) {
+      startListening();
+    }
+  };
+
+  const handleTalkEnd = () => {
+    if (!isHoldingRef.current) return;
+    isHoldingRef.current = false;
+    stopListening();
+  };
+
+  const handleTurnModeChange = (mode: TurnMode) => {
+    if (mode === turnMode) return;
+    isHoldingRef.current = false;
+    closeMicrophone();
+    setTurnMode(mode);
+    persistSettings({ turnMode: mode });
+  };
+
+  const handleVadChange = (preset: VadPreset | 'custom', settings: VadSettings) => {
+    setVadPreset(preset);
+    setVad(settings);
+    audioCapture.current?.updateLocalVad(localVadFor(settings));
+    persistSettings({ vadPreset: preset, vad: settings });
+  };
+
+  const handleSkipSilenceChange = async (enabled: boolean) => {
+    setSkipSilence(enabled);
+    persistSettings({ skipSilence: enabled });
+
+    // Restart capture on the open stream so the change applies mid-conversation
+    const stream = streamRef.current;
+    if (!stream || !audioCapture.current?.getRecordingState() || turnMode !== 'server_vad') return;
+    audioCapture.current.stopCapture();
+    try {
+      await startCapture(stream, enabled);
+    } catch (err) {
+      console.error('Error restarting audio capture:', err);
+      setError(err instanceof Error ? err.message : 'Unable to access microphone');
+    }
+  };
+
+  // Median background level in dBFS, read from the level meter's analyser.
+  // With the mic off, the meter runs alone for the measurement; nothing is
+  // sent to CASEY.
+  const measureNoise = async (): Promise<number> => {
+    let temporary: MediaStream | null = null;
+    if (!analyserRef.current) {
+      temporary = await navigator.mediaDevices.getUserMedia({ audio: MICROPHONE_CONSTRAINTS });
+      startLevelMeter(temporary);
+    }
+
+    try {
+      const analyser = analyserRef.current!;
+      const samples = new Float32Array(analyser.fftSize);
+      const levels: number[] = [];
+
+      await new Promise<void>(resolve => {
+        const interval = setInterval(() => {
+          analyser.getFloatTimeDomainData(samples);
+          const power = samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length;
+          levels.push(10 * Math.log10(Math.max(power, 1e-10)));
+        }, 50);
+        setTimeout(() => {
+          clearInterval(interval);
+          resolve();
+        }, CALIBRATION_MS);
+      });
+
+      levels.sort((a, b) => a - b);
+      return levels[Math.floor(levels.length / 2)];
+    } finally {
+      if (temporary) {
+        stopLevelMeter();
+        temporary.getTracks().forEach(track => track.stop());
+      }
+    }
+  };
+
+  const talkStartRef = useRef(handleTalkStart);
+  const talkEndRef = useRef(handleTalkEnd);
+  talkStartRef.current = handleTalkStart;
+  talkEndRef.current = handleTalkEnd;
+
+  useEffect(() => {
+    if (turnMode !== 'push_to_talk') return;
+
+    // Leave space alone while the student is typing; preventDefault below
+    // also stops it from clicking a focused button
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat || isTyping(event.target)) return;
+      event.preventDefault();
+      talkStartRef.current();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTyping(event.target)) return;
+      event.preventDefault();
+      talkEndRef.current();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [turnMode]);
+
   useEffect(() => {
     return () => {
       if (animationFrameRef.current) {
@@ -196,12 +485,19 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         audioCapture.current.stopCapture();
       }
       if (audioPlayer.current) {
-        audioPlayer.current.stop();
+        audioPlayer.current.close();
       }
       disconnect();
     };
   }, [disconnect]);
 
+  const pushToTalk = turnMode === 'push_to_talk';
+
+  const turnModeClass = (mode: TurnMode) => `
+    px-3 py-1 rounded-full transition-all
+    ${turnMode === mode ? 'bg-[#4169E1] text-white' : 'text-gray-600 hover:text-[#4169E1]'}
+  `;
+
   return (
     <div className="flex flex-col items-center space-y-6 p-2 sm:p-4">
       <div className="flex items-center gap-2 text-sm">
@@ -211,9 +507,46 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         </span>
       </div>
 
+      <div className="flex items-center gap-2 text-sm" role="radiogroup" aria-label="How turns end">
+        <button
+          type="button"
+          role="radio"
+          aria-checked={!pushToTalk}
+          onClick={() => handleTurnModeChange('server_vad')}
+          className={turnModeClass('server_vad')}
+        >
+          Hands-free
+        </button>
+        <button
+          type="button"
+          role="radio"
+          aria-checked={pushToTalk}
+          onClick={() => handleTurnModeChange('push_to_talk')}
+          className={turnModeClass('push_to_talk')}
+        >
+          Push to talk
+        </button>
+      </div>
+
+      {!pushToTalk && (
+        <VoiceSettingsPanel
+          vadPreset={vadPreset}
+          vad={vad}
+          onChange={handleVadChange}
+          skipSilence={skipSilence}
+          skipSilenceAvailable={!microphoneTrack}
+          onSkipSilenceChange={handleSkipSilenceChange}
+          onCalibrate={measureNoise}
+        />
+      )}
+
       <div className="relative">
         <button
-          onClick={toggleListening}
+          onClick={pushToTalk ? undefined : toggleListening}
+          onPointerDown={pushToTalk ? handleTalkStart : undefined}
+          onPointerUp={pushToTalk ? handleTalkEnd : undefined}
+          onPointerLeave={pushToTalk ? handleTalkEnd : undefined}
+          onPointerCancel={pushToTalk ? handleTalkEnd : undefined}
           disabled={!isInitialized}
           className={`
             relative w-28 h-28 sm:w-32 sm:h-32 rounded-full transition-all duration-300
@@ -228,7 +561,7 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
             disabled:transform-none disabled:hover:scale-100
             text-white
           `}
-          aria-label={isListening ? 'Stop listening' : 'Start listening'}
+          aria-label={pushToTalk ? 'Hold to talk' : isListening ? 'Stop listening' : 'Start listening'}
         >
           {isListening && (
             <div 
@@ -266,11 +599,17 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         <p className="text-base sm:text-lg font-medium text-gray-700">
           {!isInitialized 
             ? 'Initializing...'
-            : isSpeaking 
-              ? 'CASEY is speaking...'
-              : isListening 
-                ? 'Listening...'
-                : 'Click to start speaking'
+            : isReconnecting
+              ? 'Reconnecting...'
+              : isConnecting
+                ? 'Connecting...'
+                : isResuming
+                  ? 'Restoring conversation...'
+                  : isSpeaking 
+                    ? 'CASEY is speaking...'
+                    : isListening 
+                      ? pushToTalk ? 'Listening... release to send' : 'Listening...'
+                      : pushToTalk ? 'Hold the button or space bar to talk' : 'Click to start speaking'
           }
         </p>
         
@@ -287,6 +626,12 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
             ))}
           </div>
         )}
+
+        {isListening && isGating && (
+          <p className="text-sm text-gray-600">
+            {isHearingSpeech ? 'Sending while you talk' : 'Paused until you speak'}
+          </p>
+        )}
       </div>
 
       {error && (
@@ -295,21 +640,24 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         </div>
       )}
 
-      {transcript && (
-        <div className="p-4 bg-gray-50 border border-gray-200 rounded-[var(--radius-sm)] max-w-md w-full animate-fadeIn">
-          <h3 className="text-sm font-semibold text-gray-600 mb-2">You said:</h3>
-          <p className="text-gray-800">{transcript}</p>
-        </div>
-      )}
+      <TranscriptLog messages={messages} enableFeedback conversationId={conversationId} />
 
-      {response && (
-        <div className="p-4 bg-[#E6E9FF] border border-[#B8C5FF] rounded-[var(--radius-sm)] max-w-md w-full animate-fadeIn">
-          <h3 className="text-sm font-semibold text-[#4169E1] mb-2">CASEY:</h3>
-          <p className="text-gray-800 whitespace-pre-wrap">{response}</p>
-        </div>
+      <TextComposer
+        onSend={handleSendText}
+        disabled={!isInitialized}
+        allowTextReplies={showTextResponses !== false}
+      />
+
+      {pushToTalk && isMicOpen && !isListening && !isSpeaking && (
+        <button
+          onClick={closeMicrophone}
+          className="px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+        >
+          Turn Off Microphone
+        </button>
       )}
 
-      {(isListening || isSpeaking) && (
+      {((isListening && !pushToTalk) || isSpeaking) && (
         <button
           onClick={isSpeaking ? cancelResponse : handleStopListening}
           className="px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all transform hover:scale-105 active:scale-95"
@@ -318,7 +666,7 @@ export default function VoiceInterface({ apiKey: propApiKey }: VoiceInterfacePro
         </button>
       )}
 
-      {(transcript || response) && !isListening && !isSpeaking && (
+      {messages.length > 0 && !isListening && !isSpeaking && (
         <button
           onClick={clearConversation}
           className="px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
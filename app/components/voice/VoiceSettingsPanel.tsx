@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  matchVadPreset,
+  suggestThreshold,
+  VAD_LIMITS,
+  VAD_PRESETS,
+  VadPreset,
+  VadSettings
+} from '@/app/lib/openai/turn-detection';
+
+interface VoiceSettingsPanelProps {
+  vadPreset: VadPreset | 'custom';
+  vad: VadSettings;
+  onChange: (preset: VadPreset | 'custom', vad: VadSettings) => void;
+  skipSilence: boolean;
+  // False when the microphone streams as a WebRTC track, which can't be gated
+  skipSilenceAvailable: boolean;
+  onSkipSilenceChange: (skipSilence: boolean) => void;
+  // Resolves to the background noise level in dBFS
+  onCalibrate: () => Promise<number>;
+}
+
+const FIELDS: { key: keyof VadSettings; label: string; format: (value: number) => string }[] = [
+  { key: 'threshold', label: 'Sensitivity threshold', format: value => value.toFixed(2) },
+  { key: 'prefix_padding_ms', label: 'Audio kept before speech', format: value => `${value} ms` },
+  { key: 'silence_duration_ms', label: 'Silence before CASEY answers', format: value => `${value} ms` }
+];
+
+export default function VoiceSettingsPanel({
+  vadPreset,
+  vad,
+  onChange,
+  skipSilence,
+  skipSilenceAvailable,
+  onSkipSilenceChange,
+  onCalibrate
+}: VoiceSettingsPanelProps) {
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibration, setCalibration] = useState<{ noiseDb: number; threshold: number } | null>(null);
+  const [calibrationError, setCalibrationError] = useState<string | null>(null);
+
+  const handleField = (key: keyof VadSettings, value: number) => {
+    const next = { ...vad, [key]: value };
+    onChange(matchVadPreset(next), next);
+  };
+
+  const handleCalibrate = async () => {
+    setIsCalibrating(true);
+    setCalibration(null);
+    setCalibrationError(null);
+    try {
+      const noiseDb = await onCalibrate();
+      setCalibration({ noiseDb, threshold: suggestThreshold(noiseDb) });
+    } catch (error) {
+      console.error('Failed to calibrate microphone:', error);
+      setCalibrationError('Could not listen to the room. Check microphone access and try again.');
+    } finally {
+      setIsCalibrating(false);
+    }
+  };
+
+  const presetClass = (preset: VadPreset) => `
+    flex-1 p-2 rounded-[var(--radius-sm)] border-2 text-left transition-all
+    ${vadPreset === preset ? 'border-[#4169E1] bg-[#E6E9FF]' : 'border-gray-200 hover:border-[#B8C5FF]'}
+  `;
+
+  return (
+    <details className="w-full max-w-md text-sm">
+      <summary className="cursor-pointer text-gray-600 text-center">Voice settings</summary>
+
+      <div className="mt-3 space-y-4">
+        <div className="flex gap-2" role="radiogroup" aria-label="When CASEY answers">
+          {(Object.keys(VAD_PRESETS) as VadPreset[]).map(preset => (
+            <button
+              key={preset}
+              type="button"
+              role="radio"
+              aria-checked={vadPreset === preset}
+              onClick={() => onChange(preset, VAD_PRESETS[preset].vad)}
+              className={presetClass(preset)}
+            >
+              <span className="block font-medium text-gray-800">{VAD_PRESETS[preset].label}</span>
+              <span className="block text-xs text-gray-600">{VAD_PRESETS[preset].description}</span>
+            </button>
+          ))}
+        </div>
+
+        <label className={`flex items-start gap-2 ${skipSilenceAvailable ? 'text-gray-700' : 'text-gray-400'}`}>
+          <input
+            type="checkbox"
+            checked={skipSilence && skipSilenceAvailable}
+            disabled={!skipSilenceAvailable}
+            onChange={event => onSkipSilenceChange(event.target.checked)}
+            className="mt-1 accent-[#4169E1]"
+          />
+          <span>
+            Skip silence
+            <span className="block text-xs text-gray-600">
+              {skipSilenceAvailable
+                ? 'Only send audio while you\'re talking. Saves data on long pauses and helps in noisy rooms.'
+                : 'Not available on this connection: your microphone streams straight to CASEY.'}
+            </span>
+          </span>
+        </label>
+
+        <details>
+          <summary className="cursor-pointer text-gray-600">
+            Advanced{vadPreset === 'custom' && ' (custom)'}
+          </summary>
+
+          <div className="mt-3 space-y-3">
+            {FIELDS.map(({ key, label, format }) => (
+              <label key={key} className="block space-y-1">
+                <span className="flex justify-between text-gray-700">
+                  {label}
+                  <span className="text-gray-600">{format(vad[key])}</span>
+                </span>
+                <input
+                  type="range"
+                  min={VAD_LIMITS[key].min}
+                  max={VAD_LIMITS[key].max}
+                  step={VAD_LIMITS[key].step}
+                  value={vad[key]}
+                  onChange={event => handleField(key, Number(event.target.value))}
+                  className="w-full accent-[#4169E1]"
+                />
+              </label>
+            ))}
+
+            <div className="space-y-2">
+              <button
+                type="button"
+                onClick={handleCalibrate}
+                disabled={isCalibrating}
+                className="px-4 py-2 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all disabled:opacity-50"
+              >
+                {isCalibrating ? 'Listening to the room... stay quiet' : 'Calibrate for this room'}
+              </button>
+
+              {calibration && (
+                <div className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-[var(--radius-sm)]">
+                  <span className="text-gray-700">
+                    Background noise {Math.round(calibration.noiseDb)} dB. Suggested threshold {calibration.threshold.toFixed(2)}.
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleField('threshold', calibration.threshold)}
+                    className="text-[#4169E1] font-medium hover:underline"
+                  >
+                    Apply
+                  </button>
+                </div>
+              )}
+
+              {calibrationError && <p className="text-red-700">{calibrationError}</p>}
+            </div>
+          </div>
+        </details>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import VoiceInterface, { VoiceInterfaceHandle } from '@/app/components/voice/VoiceInterface';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import {
+  buildDraftPrompt,
+  buildDraftReadyPrompt,
+  COVER_LETTER_INSTRUCTIONS
+} from '@/app/lib/cover-letter/prompts';
+import {
+  applyEdits,
+  createRevision,
+  CoverLetterRevision,
+  parseRevision
+} from '@/app/lib/cover-letter/revisions';
+import { createCoverLetterTools } from '@/app/lib/cover-letter/tools';
+
+type Pending = 'draft' | 'revision';
+
+// The text-only response currently writing into the editor
+interface ActiveResponse {
+  id: string;
+  kind: Pending;
+  // Draft the revision's edits apply to
+  base: string;
+}
+
+export default function CoverLetterPage() {
+  const [draft, setDraft] = useState('');
+  const [status, setStatus] = useState<'idle' | 'writing' | 'revising'>('idle');
+  const [revisions, setRevisions] = useState<CoverLetterRevision[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const voiceRef = useRef<VoiceInterfaceHandle | null>(null);
+
+  // Tool handlers and text callbacks outlive renders; they work through refs
+  const draftRef = useRef('');
+  draftRef.current = draft;
+  const pendingRef = useRef<Pending | null>(null);
+  const activeRef = useRef<ActiveResponse | null>(null);
+
+  const tools = useMemo(() => createCoverLetterTools({
+    onDraftRequested: () => {
+      pendingRef.current = 'draft';
+      setStatus('writing');
+      setNotice(null);
+    },
+    onRevisionRequested: () => {
+      pendingRef.current = 'revision';
+      setStatus('revising');
+      setNotice(null);
+    },
+    getDraft: () => draftRef.current
+  }), []);
+
+  const handleTextDelta = (delta: string, responseId: string) => {
+    if (activeRef.current?.id !== responseId) {
+      const kind = pendingRef.current;
+      if (!kind) return;
+      pendingRef.current = null;
+      activeRef.current = { id: responseId, kind, base: draftRef.current };
+      if (kind === 'draft') {
+        setDraft('');
+      }
+    }
+
+    // Revisions arrive as JSON edits, applied once complete
+    if (activeRef.current.kind === 'draft') {
+      setDraft(prev => prev + delta);
+    }
+  };
+
+  const handleTextDone = (text: string, responseId: string) => {
+    const active = activeRef.current;
+    if (active?.id !== responseId) return;
+    activeRef.current = null;
+    setStatus('idle');
+
+    if (active.kind === 'draft') {
+      setDraft(text.trim());
+      voiceRef.current?.requestResponse(buildDraftReadyPrompt());
+      return;
+    }
+
+    const parsed = parseRevision(text);
+    if (!parsed.ok) {
+      console.error('Failed to parse cover letter revision:', parsed.problem, text);
+      setNotice('CASEY\'s revision didn\'t come through. Try asking again.');
+      return;
+    }
+
+    // Apply to the draft as it is now, keeping any typing done meanwhile
+    const before = draftRef.current;
+    const { text: after, unmatched } = applyEdits(before, parsed.edits);
+    if (unmatched.length > 0) {
+      setNotice(`${unmatched.length} of ${parsed.edits.length} changes didn't match the current text and were skipped.`);
+    }
+    if (after === before) {
+      return;
+    }
+
+    setDraft(after);
+    setRevisions(prev => [createRevision(uuidv4(), parsed.summary, before, after), ...prev]);
+    voiceRef.current?.requestResponse(buildDraftReadyPrompt(parsed.summary || 'the requested changes'));
+  };
+
+  // A cancelled or failed response never sends response.text.done, which
+  // would leave the editor locked
+  const handleResponseDone = (responseId: string, status: string) => {
+    if (status === 'completed') return;
+    const active = activeRef.current;
+    if (active ? active.id !== responseId : !pendingRef.current) return;
+
+    activeRef.current = null;
+    pendingRef.current = null;
+    setStatus('idle');
+    if (active?.kind === 'draft') {
+      setDraft(active.base);
+    }
+    setNotice('CASEY stopped before finishing. Try asking again.');
+  };
+
+  const handleWriteNow = () => {
+    pendingRef.current = 'draft';
+    const sent = voiceRef.current?.requestResponse(buildDraftPrompt(), ['text']) || false;
+    if (!sent) {
+      pendingRef.current = null;
+      setNotice('Tap the microphone to connect to CASEY first.');
+      return;
+    }
+    setStatus('writing');
+    setNotice(null);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy cover letter:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([draft], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cover-letter.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const latest = revisions[0];
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Cover Letter</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+            <div className="text-center space-y-2">
+              <h1 className="text-2xl font-bold text-[#4169E1]">Draft a cover letter with CASEY</h1>
+              <p className="text-gray-600">Tell CASEY about the job. The letter appears below, where you can edit it or ask CASEY for changes.</p>
+            </div>
+
+            <VoiceInterface
+              ref={voiceRef}
+              extraInstructions={COVER_LETTER_INSTRUCTIONS}
+              includeEngagement={false}
+              tools={tools}
+              onTextDelta={handleTextDelta}
+              onTextDone={handleTextDone}
+              onResponseDone={handleResponseDone}
+              showTextResponses={false}
+            />
+
+            {notice && (
+              <p className="text-center text-sm text-gray-600">{notice}</p>
+            )}
+
+            {!draft && status === 'idle' && (
+              <button
+                onClick={handleWriteNow}
+                className="w-full px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+              >
+                Write the draft now
+              </button>
+            )}
+          </div>
+
+          {(draft || status !== 'idle') && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-4">
+              <div className="flex justify-between items-baseline">
+                <h2 className="text-lg font-semibold text-gray-800">Your cover letter</h2>
+                <span className="text-sm text-gray-600">
+                  {status === 'writing' && 'CASEY is writing...'}
+                  {status === 'revising' && 'CASEY is revising...'}
+                </span>
+              </div>
+
+              <textarea
+                value={draft}
+                onChange={event => setDraft(event.target.value)}
+                readOnly={status === 'writing'}
+                rows={16}
+                aria-label="Cover letter draft"
+                className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1] text-gray-800 leading-relaxed"
+              />
+
+              {draft && status === 'idle' && (
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleCopy}
+                    className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all"
+                  >
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                  <button
+                    onClick={handleDownload}
+                    className="flex-1 px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+                  >
+                    Download .txt
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {latest && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-800">What changed</h2>
+              {latest.summary && <p className="text-sm text-gray-600">{latest.summary}</p>}
+              <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+                {latest.diff.map((segment, index) => (
+                  segment.type === 'same' ? (
+                    <span key={index}>{segment.text}</span>
+                  ) : segment.type === 'added' ? (
+                    <ins key={index} className="no-underline bg-green-100 text-green-800">{segment.text}</ins>
+                  ) : (
+                    <del key={index} className="bg-red-100 text-red-700">{segment.text}</del>
+                  )
+                ))}
+              </p>
+
+              {revisions.length > 1 && (
+                <details className="text-sm text-gray-700">
+                  <summary className="cursor-pointer text-gray-600">Earlier revisions ({revisions.length - 1})</summary>
+                  <ul className="mt-2 space-y-1">
+                    {revisions.slice(1).map(revision => (
+                      <li key={revision.id}>
+                        {new Date(revision.createdAt).toLocaleTimeString()}: {revision.summary || 'Revision'}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import {
+  EngagementSummary,
+  completeActionItem,
+  getEngagement,
+  snoozeActionItem
+} from '@/app/lib/api/engagement';
+import { ActionItem } from '@/app/lib/storage/types';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+export default function GoalsPage() {
+  const [engagement, setEngagement] = useState<EngagementSummary | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => getEngagement(getUserId())
+    .then(setEngagement)
+    .catch(err => {
+      console.error('Failed to load goals:', err);
+      setError('Could not load your goals');
+    });
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const act = async (item: ActionItem, action: 'complete' | 'snooze') => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      if (action === 'complete') {
+        await completeActionItem(getUserId(), item.id);
+      } else {
+        await snoozeActionItem(getUserId(), item.id);
+      }
+      await load();
+    } catch (err) {
+      console.error(`Failed to ${action} item:`, err);
+      setError(err instanceof Error ? err.message : 'Could not update the item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const open = engagement?.items.filter(item => item.status === 'open') || [];
+  const done = engagement?.items.filter(item => item.status === 'done') || [];
+  const outstandingIds = new Set(engagement?.outstanding.map(item => item.id));
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Goals &amp; Check-ins</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          {engagement && (
+            <div className="w-full grid grid-cols-2 gap-4 text-center">
+              <div className="bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-4">
+                <p className="text-3xl font-bold text-[#4169E1]">{engagement.streak.current}</p>
+                <p className="text-sm text-gray-600">day streak</p>
+              </div>
+              <div className="bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-4">
+                <p className="text-3xl font-bold text-[#4169E1]">{engagement.streak.longest}</p>
+                <p className="text-sm text-gray-600">longest streak</p>
+              </div>
+            </div>
+          )}
+
+          <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-4">
+            <h1 className="text-2xl font-bold text-[#4169E1]">Your goals</h1>
+
+            {!engagement && !error && <p className="text-gray-600">Loading your goals...</p>}
+
+            {engagement && open.length === 0 && (
+              <p className="text-gray-600">
+                Nothing open right now. Talk to CASEY about what you want to work on next.
+              </p>
+            )}
+
+            <ul className="space-y-3">
+              {open.map(item => (
+                <li key={item.id} className="border border-gray-100 rounded-[var(--radius-sm)] p-4 space-y-3">
+                  <div>
+                    <p className="font-medium text-gray-800">{item.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {item.kind === 'goal' ? 'Goal' : 'Action item'}
+                      {item.dueDate && ` · due ${item.dueDate}`}
+                      {!outstandingIds.has(item.id) && item.snoozedUntil &&
+                        ` · snoozed until ${new Date(item.snoozedUntil).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => act(item, 'complete')}
+                      disabled={busyId === item.id}
+                      className="px-4 py-2 text-sm bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300"
+                    >
+                      Done
+                    </button>
+                    <button
+                      onClick={() => act(item, 'snooze')}
+                      disabled={busyId === item.id}
+                      className="px-4 py-2 text-sm bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all disabled:opacity-50"
+                    >
+                      Snooze
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-[var(--radius-sm)]">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+          </div>
+
+          {done.length > 0 && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-3">
+              <h2 className="text-lg font-semibold text-gray-800">Completed</h2>
+              <ul className="space-y-2">
+                {done.map(item => (
+                  <li key={item.id} className="text-gray-600 line-through">{item.title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import VoiceInterface, { VoiceInterfaceHandle } from '@/app/components/voice/VoiceInterface';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import { listInterviews, saveInterview } from '@/app/lib/api/interviews';
+import { buildDebrief } from '@/app/lib/interview/debrief';
+import {
+  INTERVIEW_PLAN,
+  INTERVIEW_QUESTION_COUNT,
+  InterviewSetup,
+  SENIORITY_LABELS,
+  buildDebriefPrompt,
+  buildInterviewInstructions,
+  buildQuestionPrompt
+} from '@/app/lib/interview/prompts';
+import { AnswerTimer, formatDuration } from '@/app/lib/interview/timing';
+import { createInterviewTools } from '@/app/lib/interview/tools';
+import { AnswerTiming, InterviewDebrief, InterviewSeniority, InterviewSession } from '@/app/lib/storage/types';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+function scoreColor(score: number): string {
+  if (score >= 4) return 'text-green-700 bg-green-50 border-green-200';
+  if (score >= 3) return 'text-[#4169E1] bg-[#E6E9FF] border-[#B8C5FF]';
+  return 'text-amber-700 bg-amber-50 border-amber-200';
+}
+
+export default function InterviewPage() {
+  const [role, setRole] = useState('');
+  const [seniority, setSeniority] = useState<InterviewSeniority>('entry-level');
+  const [setup, setSetup] = useState<InterviewSetup | null>(null);
+  // -1 until the first question has been asked; INTERVIEW_QUESTION_COUNT once
+  // the debrief has been requested
+  const [questionIndex, setQuestionIndex] = useState(-1);
+  const [timings, setTimings] = useState<(AnswerTiming | null)[]>([]);
+  const [debrief, setDebrief] = useState<InterviewDebrief | null>(null);
+  const [pastInterviews, setPastInterviews] = useState<InterviewSession[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const voiceRef = useRef<VoiceInterfaceHandle | null>(null);
+
+  useEffect(() => {
+    listInterviews(getUserId())
+      .then(setPastInterviews)
+      .catch(error => console.error('Failed to load interviews:', error));
+  }, []);
+
+  // Speech events and tool calls are bound when the session connects, so
+  // they read the current question, setup and timers through refs
+  const questionIndexRef = useRef(-1);
+  questionIndexRef.current = questionIndex;
+  const setupRef = useRef<InterviewSetup | null>(null);
+  setupRef.current = setup;
+  const timersRef = useRef<AnswerTimer[]>([]);
+
+  const currentTimer = (): AnswerTimer | null => {
+    const index = questionIndexRef.current;
+    return index >= 0 && index < INTERVIEW_QUESTION_COUNT ? timersRef.current[index] : null;
+  };
+
+  const handleSpeechStarted = (audioStartMs: number) => {
+    currentTimer()?.speechStarted(audioStartMs);
+  };
+
+  const handleSpeechStopped = (audioEndMs: number) => {
+    const timer = currentTimer();
+    if (timer) {
+      timer.speechStopped(audioEndMs);
+      setTimings(timersRef.current.map(t => t.result()));
+    }
+  };
+
+  const tools = useMemo(() => createInterviewTools(args => {
+    if (!setupRef.current) {
+      return;
+    }
+    const result = buildDebrief(setupRef.current, args, timersRef.current.map(t => t.result()));
+    setDebrief(result);
+    saveInterview(getUserId(), result)
+      .then(saved => setPastInterviews(prev => [saved, ...prev]))
+      .catch(error => {
+        console.error('Failed to save interview:', error);
+        setNotice('Could not save this interview to your history.');
+      });
+  }), []);
+
+  const ask = (instructions: string): boolean => {
+    const sent = voiceRef.current?.requestResponse(instructions) || false;
+    setNotice(sent ? null : 'Tap the microphone to connect to CASEY first.');
+    return sent;
+  };
+
+  const handleSetup = () => {
+    if (!role.trim()) {
+      return;
+    }
+    timersRef.current = INTERVIEW_PLAN.map(() => new AnswerTimer());
+    setTimings([]);
+    setDebrief(null);
+    setQuestionIndex(-1);
+    setSetup({ role: role.trim(), seniority });
+  };
+
+  const handleNextQuestion = () => {
+    if (!setup) return;
+    const next = questionIndex + 1;
+    if (ask(buildQuestionPrompt(next, setup))) {
+      setQuestionIndex(next);
+    }
+  };
+
+  const handleFinish = () => {
+    if (!setup) return;
+    if (ask(buildDebriefPrompt(setup, timersRef.current.map(t => t.result())))) {
+      setQuestionIndex(INTERVIEW_QUESTION_COUNT);
+    }
+  };
+
+  const handleRestart = () => {
+    setSetup(null);
+    setDebrief(null);
+    setQuestionIndex(-1);
+    setNotice(null);
+  };
+
+  const slot = INTERVIEW_PLAN[questionIndex];
+  const isLastQuestion = questionIndex === INTERVIEW_QUESTION_COUNT - 1;
+  const isDebriefing = questionIndex >= INTERVIEW_QUESTION_COUNT;
+  const currentTiming = timings[questionIndex];
+  // Until the debrief arrives only the question buttons move the interview
+  // on; CASEY doesn't answer each turn by itself
+  const isInterviewing = setup !== null && debrief === null;
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Interview Practice</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          {!setup ? (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+              <div className="text-center space-y-2">
+                <h1 className="text-2xl font-bold text-[#4169E1]">Practice a mock interview</h1>
+                <p className="text-gray-600">
+                  CASEY asks {INTERVIEW_QUESTION_COUNT} questions, times your answers and gives you a scored debrief.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="interview-role" className="block text-sm font-medium text-gray-700">
+                  Role
+                </label>
+                <input
+                  id="interview-role"
+                  value={role}
+                  onChange={event => setRole(event.target.value)}
+                  placeholder="e.g. Junior data analyst"
+                  className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="interview-seniority" className="block text-sm font-medium text-gray-700">
+                  Level
+                </label>
+                <select
+                  id="interview-seniority"
+                  value={seniority}
+                  onChange={event => setSeniority(event.target.value as InterviewSeniority)}
+                  className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] bg-white focus:outline-none focus:border-[#4169E1]"
+                >
+                  {Object.entries(SENIORITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={handleSetup}
+                disabled={!role.trim()}
+                className="w-full px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                Continue →
+              </button>
+            </div>
+          ) : (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+              <div className="text-center space-y-2">
+                <p className="text-sm text-gray-500">
+                  {setup.role} · {SENIORITY_LABELS[setup.seniority]}
+                </p>
+                <h1 className="text-2xl font-bold text-[#4169E1]">
+                  {slot
+                    ? `Question ${questionIndex + 1} of ${INTERVIEW_QUESTION_COUNT}: ${slot.category}`
+                    : isDebriefing ? 'Your debrief' : 'Ready when you are'}
+                </h1>
+                {slot && (
+                  <p className="text-sm text-gray-600">
+                    {currentTiming ? `You've spoken for ${formatDuration(currentTiming.speakingMs)}` : 'Answer out loud when CASEY asks'}
+                  </p>
+                )}
+              </div>
+
+              <VoiceInterface
+                ref={voiceRef}
+                extraInstructions={buildInterviewInstructions(setup)}
+                includeEngagement={false}
+                tools={tools}
+                autoRespond={!isInterviewing}
+                onSpeechStarted={handleSpeechStarted}
+                onSpeechStopped={handleSpeechStopped}
+              />
+
+              {notice && (
+                <p className="text-center text-sm text-gray-600">{notice}</p>
+              )}
+
+              {isDebriefing && !debrief && (
+                <p className="text-center text-gray-600">CASEY is scoring your answers...</p>
+              )}
+
+              {debrief && (
+                <div className="space-y-4">
+                  <div className="text-center space-y-1">
+                    <p className="text-4xl font-bold text-[#4169E1]">{debrief.overallScore.toFixed(1)}<span className="text-lg text-gray-500"> / 5</span></p>
+                    <p className="text-gray-700">{debrief.summary}</p>
+                  </div>
+                  <ol className="space-y-3">
+                    {debrief.answers.map(answer => (
+                      <li key={answer.questionNumber} className="border border-gray-100 rounded-[var(--radius-sm)] p-4 space-y-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <p className="font-medium text-gray-800">{answer.questionNumber}. {answer.question}</p>
+                          <span className={`shrink-0 px-2 py-0.5 text-sm font-semibold border rounded-full ${scoreColor(answer.score)}`}>
+                            {answer.score}/5
+                          </span>
+                        </div>
+                        {answer.timing && (
+                          <p className="text-xs text-gray-500">
+                            Spoke for {formatDuration(answer.timing.speakingMs)} (answer took {formatDuration(answer.timing.spanMs)})
+                          </p>
+                        )}
+                        <p className="text-sm text-gray-700"><span className="font-medium">Worked well:</span> {answer.strengths}</p>
+                        <p className="text-sm text-gray-700"><span className="font-medium">To improve:</span> {answer.improvements}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                {!isDebriefing && (
+                  <button
+                    onClick={isLastQuestion ? handleFinish : handleNextQuestion}
+                    className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all"
+                  >
+                    {questionIndex < 0 ? 'Begin interview →' : isLastQuestion ? 'Finish and get debrief →' : 'Next question →'}
+                  </button>
+                )}
+                {(questionIndex < 0 || debrief) && (
+                  <button
+                    onClick={handleRestart}
+                    className="px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+                  >
+                    {debrief ? 'New interview' : 'Change role'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {pastInterviews.length > 0 && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-800">Past interviews</h2>
+              <ul className="space-y-2">
+                {pastInterviews.map(interview => (
+                  <li key={interview.id} className="flex justify-between gap-3 border-t border-gray-100 pt-2 first:border-0 first:pt-0">
+                    <span className="text-gray-700">
+                      {interview.role} · {SENIORITY_LABELS[interview.seniority]}
+                      <span className="block text-xs text-gray-500">{new Date(interview.createdAt).toLocaleDateString()}</span>
+                    </span>
+                    <span className="font-semibold text-[#4169E1]">{interview.overallScore.toFixed(1)} / 5</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
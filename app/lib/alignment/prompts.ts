@@ -0,0 +1,73 @@
+import { getModeInstructions } from '../prompts/registry';
+import { MotivationTheme } from '../storage/types';
+
+export interface ReflectivePrompt {
+  id: string;
+  question: string;
+  // What CASEY should listen for when following up
+  focus: string;
+}
+
+// Curated order: concrete memories first, values and energy later.
+// Prompt ids are stored with themes, so rename with care.
+export const ALIGNMENT_PROMPTS: ReflectivePrompt[] = [
+  {
+    id: 'excitement',
+    question: 'When was the last time you felt excited about something you were working on?',
+    focus: 'what specifically made it exciting: the problem, the people, the outcome, or the recognition'
+  },
+  {
+    id: 'lost-track-of-time',
+    question: 'Tell me about a time you lost track of time because you were so absorbed in what you were doing.',
+    focus: 'the kind of activity that creates flow for them'
+  },
+  {
+    id: 'proud',
+    question: 'What is something you have done that you are genuinely proud of?',
+    focus: 'whether the pride comes from mastery, helping others, persistence or creativity'
+  },
+  {
+    id: 'drained',
+    question: 'What kind of work or tasks leave you feeling drained, even when you do them well?',
+    focus: 'motivations by contrast: what is missing in those tasks'
+  },
+  {
+    id: 'impact',
+    question: 'If your work could change one thing in the world, or in your community, what would it be?',
+    focus: 'the impact and values they care about'
+  }
+];
+
+/**
+ * Standing instructions for the whole Alignment session.
+ */
+export const ALIGNMENT_INSTRUCTIONS = getModeInstructions('alignment');
+
+// Per-response instructions that move the interview to the given prompt
+export function buildReflectivePrompt(index: number, themes: MotivationTheme[]): string {
+  const prompt = ALIGNMENT_PROMPTS[index];
+  const heard = themes.length
+    ? `\n\nThemes heard so far: ${themes.map(t => t.theme).join(', ')}.`
+    : '';
+
+  return `${ALIGNMENT_INSTRUCTIONS}
+
+This is reflective question ${index + 1} of ${ALIGNMENT_PROMPTS.length} (prompt_id "${prompt.id}"). ${index === 0 ? 'Briefly welcome the student to Alignment, then ask' : 'Transition naturally and ask'}:
+"${prompt.question}"
+
+When they answer, listen for ${prompt.focus}.${heard}`;
+}
+
+// Per-response instructions for the wrap-up
+export function buildSummaryPrompt(themes: MotivationTheme[]): string {
+  const heard = themes.length
+    ? themes.map(t => `- ${t.theme}: ${t.evidence}`).join('\n')
+    : '- (no themes recorded; draw on the conversation)';
+
+  return `${ALIGNMENT_INSTRUCTIONS}
+
+The reflective questions are finished. Call propose_motivations_summary with a warm, second-person summary (3-5 sentences) of what motivates the student and their top motivations, based on these themes:
+${heard}
+
+Then tell the student, in two or three sentences, what you noticed, and let them know they can edit and save the summary on screen.`;
+}
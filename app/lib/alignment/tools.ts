@@ -0,0 +1,74 @@
+import { RealtimeTool } from '../openai/tools';
+import { ALIGNMENT_PROMPTS } from './prompts';
+
+export type RecordThemeArgs = {
+  theme: string;
+  evidence: string;
+  prompt_id: string;
+};
+
+export type ProposeSummaryArgs = {
+  summary: string;
+  top_motivations: string[];
+};
+
+export interface AlignmentToolHandlers {
+  // Returns how many distinct themes have been recorded
+  onTheme: (args: RecordThemeArgs) => number;
+  onSummary: (args: ProposeSummaryArgs) => void;
+}
+
+export function createAlignmentTools(handlers: AlignmentToolHandlers): RealtimeTool[] {
+  const recordTheme: RealtimeTool<RecordThemeArgs> = {
+    name: 'record_motivation_theme',
+    description: "Record a motivation theme revealed by the student's answer.",
+    parameters: {
+      type: 'object',
+      properties: {
+        theme: {
+          type: 'string',
+          description: 'Short name for the motivation, e.g. "helping others" or "creative freedom"'
+        },
+        evidence: {
+          type: 'string',
+          description: 'What the student said that shows it, in a sentence'
+        },
+        prompt_id: {
+          type: 'string',
+          enum: ALIGNMENT_PROMPTS.map(prompt => prompt.id),
+          description: 'The reflective question being answered'
+        }
+      },
+      required: ['theme', 'evidence', 'prompt_id'],
+      additionalProperties: false
+    },
+    handler: (args) => ({ recorded: true, total_themes: handlers.onTheme(args) })
+  };
+
+  const proposeSummary: RealtimeTool<ProposeSummaryArgs> = {
+    name: 'propose_motivations_summary',
+    description: 'Show the student a draft summary of their motivations, which they can edit and save.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: {
+          type: 'string',
+          description: 'A warm 3-5 sentence summary addressed to the student'
+        },
+        top_motivations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Their strongest motivations, most important first'
+        }
+      },
+      required: ['summary', 'top_motivations'],
+      additionalProperties: false
+    },
+    handler: (args) => {
+      handlers.onSummary(args);
+      return { shown_to_student: true };
+    }
+  };
+
+  return [recordTheme, proposeSummary];
+}
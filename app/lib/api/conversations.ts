@@ -0,0 +1,39 @@
+import { ConversationRecord, ConversationSummary, StoredConversationItem } from '../storage/types';
+import { request } from './request';
+
+export async function listConversations(userId: string): Promise<ConversationSummary[]> {
+  const data = await request<{ conversations: ConversationSummary[] }>(
+    `/api/conversations?userId=${encodeURIComponent(userId)}`
+  );
+  return data.conversations;
+}
+
+export async function getConversation(id: string, userId: string): Promise<ConversationRecord> {
+  const data = await request<{ conversation: ConversationRecord }>(
+    `/api/conversations/${id}?userId=${encodeURIComponent(userId)}`
+  );
+  return data.conversation;
+}
+
+export async function createConversation(userId: string, title?: string): Promise<ConversationRecord> {
+  const data = await request<{ conversation: ConversationRecord }>('/api/conversations', {
+    method: 'POST',
+    body: JSON.stringify({ userId, title })
+  });
+  return data.conversation;
+}
+
+export async function saveConversationItems(
+  id: string,
+  userId: string,
+  items: StoredConversationItem[]
+): Promise<void> {
+  await request(`/api/conversations/${id}/items`, {
+    method: 'POST',
+    body: JSON.stringify({ userId, items })
+  });
+}
+
+export async function deleteConversation(id: string, userId: string): Promise<void> {
+  await request(`/api/conversations/${id}?userId=${encodeURIComponent(userId)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,49 @@
+import { Streak } from '../engagement/items';
+import { ActionItem, ActionItemKind } from '../storage/types';
+import { request } from './request';
+
+export interface EngagementSummary {
+  items: ActionItem[];
+  // Open, unsnoozed items in follow-up order
+  outstanding: ActionItem[];
+  streak: Streak;
+}
+
+export async function getEngagement(userId: string): Promise<EngagementSummary> {
+  return request<EngagementSummary>(`/api/engagement?userId=${encodeURIComponent(userId)}`);
+}
+
+export async function createActionItem(
+  userId: string,
+  item: { title: string; kind: ActionItemKind; dueDate?: string | null }
+): Promise<ActionItem> {
+  const data = await request<{ item: ActionItem }>('/api/engagement/items', {
+    method: 'POST',
+    body: JSON.stringify({ userId, ...item })
+  });
+  return data.item;
+}
+
+export async function completeActionItem(userId: string, id: string): Promise<ActionItem> {
+  const data = await request<{ item: ActionItem }>(`/api/engagement/items/${id}/complete`, {
+    method: 'POST',
+    body: JSON.stringify({ userId })
+  });
+  return data.item;
+}
+
+export async function snoozeActionItem(userId: string, id: string, days?: number): Promise<ActionItem> {
+  const data = await request<{ item: ActionItem }>(`/api/engagement/items/${id}/snooze`, {
+    method: 'POST',
+    body: JSON.stringify({ userId, days })
+  });
+  return data.item;
+}
+
+export async function checkIn(userId: string): Promise<Streak> {
+  const data = await request<{ streak: Streak }>('/api/engagement/check-ins', {
+    method: 'POST',
+    body: JSON.stringify({ userId })
+  });
+  return data.streak;
+}
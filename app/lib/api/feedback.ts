@@ -0,0 +1,25 @@
+import { FeedbackRating, ResponseFeedback } from '../storage/types';
+import { request } from './request';
+
+export async function listFeedback(userId: string): Promise<ResponseFeedback[]> {
+  const data = await request<{ feedback: ResponseFeedback[] }>(
+    `/api/feedback?userId=${encodeURIComponent(userId)}`
+  );
+  return data.feedback;
+}
+
+export async function saveFeedback(input: {
+  userId: string;
+  responseId: string;
+  rating: FeedbackRating | null;
+  comment?: string;
+  conversationId?: string | null;
+  itemId?: string | null;
+  responseText?: string;
+}): Promise<ResponseFeedback> {
+  const data = await request<{ feedback: ResponseFeedback }>('/api/feedback', {
+    method: 'POST',
+    body: JSON.stringify(input)
+  });
+  return data.feedback;
+}
@@ -0,0 +1,17 @@
+import { InterviewDebrief, InterviewSession } from '../storage/types';
+import { request } from './request';
+
+export async function listInterviews(userId: string): Promise<InterviewSession[]> {
+  const data = await request<{ interviews: InterviewSession[] }>(
+    `/api/interviews?userId=${encodeURIComponent(userId)}`
+  );
+  return data.interviews;
+}
+
+export async function saveInterview(userId: string, debrief: InterviewDebrief): Promise<InterviewSession> {
+  const data = await request<{ interview: InterviewSession }>('/api/interviews', {
+    method: 'POST',
+    body: JSON.stringify({ userId, ...debrief })
+  });
+  return data.interview;
+}
@@ -0,0 +1,21 @@
+import { MotivationSummary, MotivationTheme } from '../storage/types';
+import { request } from './request';
+
+export async function listMotivationSummaries(userId: string): Promise<MotivationSummary[]> {
+  const data = await request<{ summaries: MotivationSummary[] }>(
+    `/api/motivations?userId=${encodeURIComponent(userId)}`
+  );
+  return data.summaries;
+}
+
+export async function saveMotivationSummary(
+  userId: string,
+  summary: string,
+  themes: MotivationTheme[]
+): Promise<MotivationSummary> {
+  const data = await request<{ summary: MotivationSummary }>('/api/motivations', {
+    method: 'POST',
+    body: JSON.stringify({ userId, summary, themes })
+  });
+  return data.summary;
+}
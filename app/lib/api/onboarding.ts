@@ -0,0 +1,26 @@
+import { OnboardingProgress } from '../storage/types';
+import { request } from './request';
+
+export async function getOnboardingProgress(userId: string): Promise<OnboardingProgress> {
+  const data = await request<{ progress: OnboardingProgress }>(
+    `/api/onboarding?userId=${encodeURIComponent(userId)}`
+  );
+  return data.progress;
+}
+
+export async function saveOnboardingAnswer(
+  userId: string,
+  questionId: string,
+  text: string,
+  values?: string[]
+): Promise<OnboardingProgress> {
+  const data = await request<{ progress: OnboardingProgress }>('/api/onboarding/answers', {
+    method: 'POST',
+    body: JSON.stringify({ userId, questionId, text, values })
+  });
+  return data.progress;
+}
+
+export async function resetOnboarding(userId: string): Promise<void> {
+  await request(`/api/onboarding?userId=${encodeURIComponent(userId)}`, { method: 'DELETE' });
+}
@@ -0,0 +1,26 @@
+import { CareerPathReport, CareerPathReportContent } from '../storage/types';
+import { request } from './request';
+
+export async function listReports(userId: string): Promise<CareerPathReport[]> {
+  const data = await request<{ reports: CareerPathReport[] }>(
+    `/api/reports?userId=${encodeURIComponent(userId)}`
+  );
+  return data.reports;
+}
+
+export async function getReport(id: string): Promise<CareerPathReport> {
+  const data = await request<{ report: CareerPathReport }>(`/api/reports/${id}`);
+  return data.report;
+}
+
+export async function saveReport(userId: string, report: CareerPathReportContent): Promise<CareerPathReport> {
+  const data = await request<{ report: CareerPathReport }>('/api/reports', {
+    method: 'POST',
+    body: JSON.stringify({ userId, report })
+  });
+  return data.report;
+}
+
+export function reportExportUrl(id: string): string {
+  return `/api/reports/${id}/export`;
+}
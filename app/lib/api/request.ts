@@ -0,0 +1,15 @@
+// Shared fetch wrapper for the app's JSON API routes. Non-2xx responses throw
+// with the route's { error } message.
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
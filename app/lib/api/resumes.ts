@@ -0,0 +1,35 @@
+import { Resume, ResumeChecklistItem } from '../storage/types';
+import { request } from './request';
+
+export async function listResumes(userId: string): Promise<Resume[]> {
+  const data = await request<{ resumes: Resume[] }>(`/api/resumes?userId=${encodeURIComponent(userId)}`);
+  return data.resumes;
+}
+
+// Multipart upload, so it bypasses request()'s JSON content type
+export async function uploadResume(userId: string, file: File): Promise<Resume> {
+  const form = new FormData();
+  form.append('userId', userId);
+  form.append('file', file);
+
+  const response = await fetch('/api/resumes', { method: 'POST', body: form });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Upload failed: ${response.status}`);
+  }
+
+  return data.resume;
+}
+
+export async function saveResumeChecklist(
+  userId: string,
+  id: string,
+  checklist: ResumeChecklistItem[]
+): Promise<Resume> {
+  const data = await request<{ resume: Resume }>(`/api/resumes/${id}/checklist`, {
+    method: 'PUT',
+    body: JSON.stringify({ userId, checklist })
+  });
+  return data.resume;
+}
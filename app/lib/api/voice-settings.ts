@@ -0,0 +1,18 @@
+import { SaveVoiceSettingsInput, VoiceSettings } from '../storage/types';
+import { request } from './request';
+
+// Null when the student has never changed their settings
+export async function getVoiceSettings(userId: string): Promise<VoiceSettings | null> {
+  const data = await request<{ settings: VoiceSettings | null }>(
+    `/api/voice-settings?userId=${encodeURIComponent(userId)}`
+  );
+  return data.settings;
+}
+
+export async function saveVoiceSettings(settings: SaveVoiceSettingsInput): Promise<VoiceSettings> {
+  const data = await request<{ settings: VoiceSettings }>('/api/voice-settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings)
+  });
+  return data.settings;
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { getConversation, listConversations } from '../api/conversations';
+import { listMotivationSummaries } from '../api/motivations';
+import { getOnboardingProgress } from '../api/onboarding';
+import { formatProfileInstructions } from '../onboarding/instructions';
+import { RealtimeSession } from '../openai/realtime-session';
+import { getModeInstructions } from '../prompts/registry';
+import { createTokenProvider } from '../openai/token-provider';
+import { DEFAULT_TRANSPORT, transportConfigFor } from '../openai/transports';
+import { CareerPathReportContent } from '../storage/types';
+import { getItemText } from '../utils/transcript';
+import { REPORT_SCHEMA, parseReportContent } from './schema';
+
+// Conversations and characters of history given to the model
+const MAX_CONVERSATIONS = 5;
+const MAX_HISTORY_CHARS = 12000;
+// A response that hasn't finished by then is treated as failed
+const RESPONSE_TIMEOUT_MS = 120000;
+
+export type ClarityStatus = 'gathering' | 'connecting' | 'writing' | 'retrying';
+
+async function gatherContext(userId: string): Promise<string> {
+  const [progress, motivations, conversations] = await Promise.all([
+    getOnboardingProgress(userId).catch(() => null),
+    listMotivationSummaries(userId).catch(() => []),
+    listConversations(userId).catch(() => [])
+  ]);
+
+  const sections: string[] = [];
+
+  const profile = progress ? formatProfileInstructions(progress.profile) : '';
+  if (profile) {
+    sections.push(profile);
+  }
+
+  if (motivations.length > 0) {
+    sections.push(`What motivates the student (from Alignment):\n${motivations[0].summary}`);
+  }
+
+  // Newest conversations first, so truncation drops the oldest
+  const lines: string[] = [];
+  let length = 0;
+  for (const summary of conversations.slice(0, MAX_CONVERSATIONS)) {
+    const conversation = await getConversation(summary.id, userId).catch(() => null);
+    if (!conversation) continue;
+
+    const turns = conversation.items
+      .filter(item => item.type === 'message' && (item.role === 'user' || item.role === 'assistant'))
+      .map(item => `${item.role === 'user' ? 'Student' : 'CASEY'}: ${getItemText(item).trim()}`)
+      .filter(line => !line.endsWith(':'));
+
+    const block = [`[${conversation.title}]`, ...turns].join('\n');
+    if (length + block.length > MAX_HISTORY_CHARS) break;
+    lines.push(block);
+    length += block.length;
+  }
+
+  if (lines.length > 0) {
+    sections.push(`Coaching conversations so far:\n${lines.join('\n\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function buildReportInstructions(context: string): string {
+  return getModeInstructions('clarity', {
+    schema: JSON.stringify(REPORT_SCHEMA, null, 2),
+    context: context || 'No profile or conversation history is available yet.'
+  });
+}
+
+// Resolves with the text of the next response, rejecting if it fails or
+// takes too long
+function nextTextResponse(session: RealtimeSession): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    const timeout = setTimeout(
+      () => onError(new Error('Timed out waiting for the report')),
+      RESPONSE_TIMEOUT_MS
+    );
+
+    const onText = (event: { text: string }) => {
+      text += event.text;
+    };
+    const onDone = (response: { status: string }) => {
+      cleanup();
+      if (response.status === 'completed') {
+        resolve(text);
+      } else {
+        reject(new Error(`Report response ${response.status}`));
+      }
+    };
+    const onError = (error: unknown) => {
+      cleanup();
+      reject(error instanceof Error ? error : new Error('Report generation failed'));
+    };
+    const onDisconnected = () => onError(new Error('Connection closed while writing the report'));
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      session.off('response.text.done', onText);
+      session.off('response.done', onDone);
+      session.off('error', onError);
+      session.off('disconnected', onDisconnected);
+    };
+
+    session.on('response.text.done', onText);
+    session.on('response.done', onDone);
+    session.on('error', onError);
+    session.on('disconnected', onDisconnected);
+  });
+}
+
+/**
+ * Writes a Clarity report in a separate text-only session, so the JSON never
+ * shows up in the spoken conversation or its stored history. Output that
+ * doesn't match REPORT_SCHEMA gets one correction round before failing.
+ */
+export async function generateCareerReport(
+  userId: string,
+  onStatus?: (status: ClarityStatus) => void
+): Promise<CareerPathReportContent> {
+  onStatus?.('gathering');
+  const instructions = buildReportInstructions(await gatherContext(userId));
+
+  onStatus?.('connecting');
+  // Text only: over WebRTC the connection receives audio without asking for
+  // the microphone; the socket transports never capture one
+  const tokenProvider = createTokenProvider({ config: { modalities: ['text'] } });
+  const session = new RealtimeSession({
+    transport: transportConfigFor(
+      DEFAULT_TRANSPORT,
+      tokenProvider,
+      DEFAULT_TRANSPORT === 'webrtc' ? { microphone: false } : {}
+    ),
+    reconnect: false
+  });
+  // Errors outside a response wait are only logged; an unheard 'error' event
+  // would throw inside the transport
+  session.on('error', error => console.error('Clarity session error:', error));
+
+  // Listening before connect() so a socket that fails to open rejects here
+  const opened = new Promise<void>((resolve, reject) => {
+    const onConnected = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: unknown) => {
+      cleanup();
+      reject(error instanceof Error ? error : new Error('Could not connect to write the report'));
+    };
+    const onDisconnected = () => onError(new Error('Connection closed before the report started'));
+
+    const cleanup = () => {
+      session.off('connected', onConnected);
+      session.off('error', onError);
+      session.off('disconnected', onDisconnected);
+    };
+
+    session.on('connected', onConnected);
+    session.on('error', onError);
+    session.on('disconnected', onDisconnected);
+  });
+
+  try {
+    await Promise.all([session.connect(), opened]);
+
+    session.updateSession({
+      modalities: ['text'],
+      instructions,
+      turn_detection: null,
+      temperature: 0.6
+    });
+
+    onStatus?.('writing');
+    session.createConversationItem({
+      type: 'message',
+      role: 'user',
+      content: [{ type: 'input_text', text: 'Please write my Clarity report.' }]
+    });
+    const pending = nextTextResponse(session);
+    session.createResponse({ modalities: ['text'] });
+
+    let result = parseReportContent(await pending);
+    if (result.ok) {
+      return result.content;
+    }
+
+    onStatus?.('retrying');
+    session.createConversationItem({
+      type: 'message',
+      role: 'user',
+      content: [{
+        type: 'input_text',
+        text: `That did not match the schema: ${result.problems.join('; ')}. Reply with only the corrected JSON object.`
+      }]
+    });
+    const retry = nextTextResponse(session);
+    session.createResponse({ modalities: ['text'] });
+
+    result = parseReportContent(await retry);
+    if (!result.ok) {
+      throw new Error(`Report did not match the expected format: ${result.problems.join('; ')}`);
+    }
+    return result.content;
+  } finally {
+    session.disconnect();
+  }
+}
@@ -0,0 +1,28 @@
+import { CareerPathReport } from '../storage/types';
+
+function list(items: string[]): string {
+  return items.length ? items.map(item => `- ${item}`).join('\n') : '- None identified';
+}
+
+export function reportToMarkdown(report: CareerPathReport): string {
+  const sections = [
+    '# CASEY Clarity Report',
+    `_Generated ${new Date(report.createdAt).toLocaleDateString('en-US', { dateStyle: 'long' })}_`,
+    report.summary,
+    '## Career Paths'
+  ];
+
+  report.paths.forEach((path, index) => {
+    sections.push(
+      `### ${index + 1}. ${path.title}`,
+      path.fit,
+      `**Skills needed**\n${list(path.requiredSkills)}`,
+      `**Gaps to close**\n${list(path.skillGaps)}`,
+      `**Next steps**\n${list(path.nextSteps)}`
+    );
+  });
+
+  sections.push('## Your Next Steps', report.nextSteps.map((step, i) => `${i + 1}. ${step}`).join('\n'));
+
+  return sections.join('\n\n') + '\n';
+}
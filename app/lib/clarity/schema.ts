@@ -0,0 +1,65 @@
+import { CareerPathReportContent } from '../storage/types';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// The exact JSON shape the model must return; mirrors CareerPathReportContent
+export const REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Two or three sentences on where the student stands today' },
+    paths: {
+      type: 'array',
+      description: 'Two to four candidate career paths, best fit first',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Role or field, e.g. "UX Designer"' },
+          fit: { type: 'string', description: 'Why it suits this student, citing what they said' },
+          requiredSkills: { ...stringList, description: 'Skills the path needs' },
+          skillGaps: { ...stringList, description: 'Required skills the student does not show yet' },
+          nextSteps: { ...stringList, description: 'Concrete actions for this path' }
+        },
+        required: ['title', 'fit', 'requiredSkills', 'skillGaps', 'nextSteps'],
+        additionalProperties: false
+      }
+    },
+    nextSteps: { ...stringList, description: 'The three most important actions overall, in order' }
+  },
+  required: ['summary', 'paths', 'nextSteps'],
+  additionalProperties: false
+};
+
+export type ReportParseResult =
+  | { ok: true; content: CareerPathReportContent }
+  | { ok: false; problems: string[] };
+
+/**
+ * Checks model output (or a request body) against REPORT_SCHEMA. Tolerates a
+ * Markdown code fence around the JSON, since models add one despite being
+ * told not to.
+ */
+export function parseReportContent(input: string | unknown): ReportParseResult {
+  let value = input;
+
+  if (typeof input === 'string') {
+    const unfenced = input.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      value = JSON.parse(unfenced);
+    } catch {
+      return { ok: false, problems: ['Output is not valid JSON'] };
+    }
+  }
+
+  const problems = validateJsonSchema(REPORT_SCHEMA, value);
+  if (problems.length > 0) {
+    return { ok: false, problems };
+  }
+
+  const content = value as CareerPathReportContent;
+  if (content.paths.length === 0) {
+    return { ok: false, problems: ['$.paths should contain at least one career path'] };
+  }
+
+  return { ok: true, content };
+}
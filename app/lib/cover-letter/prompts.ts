@@ -0,0 +1,31 @@
+import { getModeInstructions, renderNamedTemplate } from '../prompts/registry';
+
+export interface CoverLetterDetails {
+  company: string;
+  role: string;
+  // Requirements from the posting and the student's matching experience
+  highlights: string[];
+}
+
+export const COVER_LETTER_INSTRUCTIONS = getModeInstructions('cover-letter');
+
+// Text-only instructions for the first draft
+export function buildDraftPrompt(details?: CoverLetterDetails): string {
+  return renderNamedTemplate('cover-letter-draft', {
+    company: details?.company,
+    role: details?.role,
+    highlights: details?.highlights
+  });
+}
+
+// Text-only instructions for a revision, as edits to the current draft
+export function buildRevisionPrompt(draft: string, changes: string): string {
+  return renderNamedTemplate('cover-letter-revision', { draft, changes });
+}
+
+// Spoken follow-up once a draft or revision is on screen
+export function buildDraftReadyPrompt(summary?: string): string {
+  return summary
+    ? renderNamedTemplate('cover-letter-revised', { summary })
+    : renderNamedTemplate('cover-letter-ready');
+}
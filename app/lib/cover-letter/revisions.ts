@@ -0,0 +1,75 @@
+import { DiffSegment, diffWords } from '../utils/diff';
+
+export interface CoverLetterEdit {
+  find: string;
+  replace: string;
+}
+
+export interface CoverLetterRevision {
+  id: string;
+  // What CASEY changed, in its words
+  summary: string;
+  diff: DiffSegment[];
+  createdAt: string;
+}
+
+export type ParsedRevision =
+  | { ok: true; summary: string; edits: CoverLetterEdit[] }
+  | { ok: false; problem: string };
+
+function isEdit(value: unknown): value is CoverLetterEdit {
+  const edit = value as CoverLetterEdit;
+  return typeof edit === 'object' && edit !== null &&
+    typeof edit.find === 'string' && edit.find !== '' &&
+    typeof edit.replace === 'string';
+}
+
+/**
+ * Parses a revision response: { "summary": string, "edits": [{ find, replace }] }.
+ * Tolerates a code fence around the JSON.
+ */
+export function parseRevision(raw: string): ParsedRevision {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, problem: 'Revision was not valid JSON' };
+  }
+
+  const revision = data as { summary?: unknown; edits?: unknown };
+  if (typeof revision !== 'object' || revision === null || !Array.isArray(revision.edits) || !revision.edits.every(isEdit)) {
+    return { ok: false, problem: 'Revision did not contain a list of { find, replace } edits' };
+  }
+
+  return {
+    ok: true,
+    summary: typeof revision.summary === 'string' ? revision.summary : '',
+    edits: revision.edits
+  };
+}
+
+/**
+ * Applies edits in order, each to its first exact match. Edits whose text
+ * isn't in the draft (the student may have changed it) are returned unapplied.
+ */
+export function applyEdits(draft: string, edits: CoverLetterEdit[]): { text: string; unmatched: CoverLetterEdit[] } {
+  let text = draft;
+  const unmatched: CoverLetterEdit[] = [];
+
+  for (const edit of edits) {
+    const index = text.indexOf(edit.find);
+    if (index === -1) {
+      unmatched.push(edit);
+      continue;
+    }
+    text = text.slice(0, index) + edit.replace + text.slice(index + edit.find.length);
+  }
+
+  return { text, unmatched };
+}
+
+export function createRevision(id: string, summary: string, before: string, after: string): CoverLetterRevision {
+  return { id, summary, diff: diffWords(before, after), createdAt: new Date().toISOString() };
+}
@@ -0,0 +1,75 @@
+import { RealtimeTool } from '../openai/tools';
+import { buildDraftPrompt, buildRevisionPrompt, CoverLetterDetails } from './prompts';
+
+export type WriteCoverLetterArgs = {
+  company: string;
+  role: string;
+  highlights: string[];
+};
+
+export type ReviseCoverLetterArgs = {
+  changes: string;
+};
+
+export interface CoverLetterToolHandlers {
+  onDraftRequested: (details: CoverLetterDetails) => void;
+  onRevisionRequested: (changes: string) => void;
+  // The draft as it is on screen, including the student's own edits
+  getDraft: () => string;
+}
+
+/**
+ * Both tools hand off to a text-only follow-up response, so the letter
+ * streams into the editor instead of being spoken.
+ */
+export function createCoverLetterTools(handlers: CoverLetterToolHandlers): RealtimeTool[] {
+  const writeLetter: RealtimeTool<WriteCoverLetterArgs> = {
+    name: 'write_cover_letter',
+    description: 'Write the first draft of the cover letter once the job details are known. The draft appears on screen.',
+    parameters: {
+      type: 'object',
+      properties: {
+        company: { type: 'string' },
+        role: { type: 'string' },
+        highlights: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'What the posting asks for and the experiences of the student that match, one point each'
+        }
+      },
+      required: ['company', 'role', 'highlights'],
+      additionalProperties: false
+    },
+    handler: (args) => {
+      handlers.onDraftRequested(args);
+      return { writing: true };
+    },
+    followUp: (args) => ({ modalities: ['text'], instructions: buildDraftPrompt(args) })
+  };
+
+  const reviseLetter: RealtimeTool<ReviseCoverLetterArgs> = {
+    name: 'revise_cover_letter',
+    description: 'Revise the cover letter on screen as the student asked. The revision appears on screen.',
+    parameters: {
+      type: 'object',
+      properties: {
+        changes: {
+          type: 'string',
+          description: 'The changes the student asked for, e.g. "make the opening more confident and mention the hackathon win"'
+        }
+      },
+      required: ['changes'],
+      additionalProperties: false
+    },
+    handler: (args) => {
+      if (!handlers.getDraft().trim()) {
+        throw new Error('There is no draft yet; call write_cover_letter first');
+      }
+      handlers.onRevisionRequested(args.changes);
+      return { revising: true };
+    },
+    followUp: (args) => ({ modalities: ['text'], instructions: buildRevisionPrompt(handlers.getDraft(), args.changes) })
+  };
+
+  return [writeLetter, reviseLetter];
+}
@@ -0,0 +1,36 @@
+import { ActionItem } from '../storage/types';
+import { Streak } from './items';
+
+const MAX_FOLLOW_UPS = 8;
+
+function describe(item: ActionItem, today: string): string {
+  const due = item.dueDate
+    ? item.dueDate < today ? ` (overdue, was due ${item.dueDate})` : ` (due ${item.dueDate})`
+    : '';
+  return `- [${item.id}] ${item.kind === 'goal' ? 'Goal' : 'Action'}: ${item.title}${due}`;
+}
+
+/**
+ * Engagement section of CASEY's instructions: how to capture commitments, and
+ * which earlier ones to follow up on.
+ */
+export function formatEngagementInstructions(outstanding: ActionItem[], streak: Streak, now: Date = new Date()): string {
+  const lines = [
+    'When the student commits to a concrete goal or next step, confirm it with them and call create_action_item. Keep titles short and specific.'
+  ];
+
+  if (outstanding.length > 0) {
+    const today = now.toISOString().slice(0, 10);
+    lines.push(
+      '',
+      'Open goals and action items from earlier sessions. Early in the conversation, ask how they are going (one or two at a time, encouragingly). If the student says one is done, call complete_action_item with its id and celebrate briefly:',
+      ...outstanding.slice(0, MAX_FOLLOW_UPS).map(item => describe(item, today))
+    );
+  }
+
+  if (streak.current > 1) {
+    lines.push('', `The student has checked in ${streak.current} days in a row; acknowledge it if it fits naturally.`);
+  }
+
+  return lines.join('\n');
+}
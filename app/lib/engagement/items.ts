@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ActionItem, ActionItemKind, EngagementRecord } from '../storage/types';
+
+export interface Streak {
+  // Consecutive days up to today (or yesterday, if today has no check-in yet)
+  current: number;
+  longest: number;
+  lastCheckIn: string | null;
+}
+
+export interface NewActionItem {
+  kind: ActionItemKind;
+  title: string;
+  dueDate?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dayNumber(day: string): number {
+  return Math.round(Date.parse(`${day}T00:00:00Z`) / DAY_MS);
+}
+
+export function addItem(record: EngagementRecord, input: NewActionItem): [EngagementRecord, ActionItem] {
+  const item: ActionItem = {
+    id: uuidv4(),
+    userId: record.userId,
+    kind: input.kind,
+    title: input.title.trim(),
+    dueDate: input.dueDate || null,
+    status: 'open',
+    createdAt: new Date().toISOString(),
+    completedAt: null,
+    snoozedUntil: null
+  };
+
+  return [{ ...record, items: [...record.items, item] }, item];
+}
+
+// Applies a change to one item; returns null when the id is unknown
+export function updateItem(
+  record: EngagementRecord,
+  id: string,
+  change: (item: ActionItem) => ActionItem
+): [EngagementRecord, ActionItem] | null {
+  const existing = record.items.find(item => item.id === id);
+  if (!existing) {
+    return null;
+  }
+
+  const updated = change(existing);
+  return [{ ...record, items: record.items.map(item => item.id === id ? updated : item) }, updated];
+}
+
+export function completeItem(item: ActionItem): ActionItem {
+  return item.status === 'done'
+    ? item
+    : { ...item, status: 'done', completedAt: new Date().toISOString(), snoozedUntil: null };
+}
+
+export function snoozeItem(item: ActionItem, until: Date): ActionItem {
+  return { ...item, snoozedUntil: until.toISOString() };
+}
+
+/**
+ * Open items CASEY should follow up on now: not done and not snoozed.
+ * Overdue items first, then by due date, then oldest first.
+ */
+export function outstandingItems(items: ActionItem[], now: Date = new Date()): ActionItem[] {
+  return items
+    .filter(item => item.status === 'open' && (!item.snoozedUntil || Date.parse(item.snoozedUntil) <= now.getTime()))
+    .sort((a, b) => {
+      if (a.dueDate && b.dueDate) return a.dueDate.localeCompare(b.dueDate);
+      if (a.dueDate) return -1;
+      if (b.dueDate) return 1;
+      return a.createdAt.localeCompare(b.createdAt);
+    });
+}
+
+export function recordCheckIn(record: EngagementRecord, now: Date = new Date()): EngagementRecord {
+  const today = toDay(now);
+  if (record.checkIns.includes(today)) {
+    return record;
+  }
+  return { ...record, checkIns: [...record.checkIns, today].sort() };
+}
+
+export function computeStreak(checkIns: string[], now: Date = new Date()): Streak {
+  if (checkIns.length === 0) {
+    return { current: 0, longest: 0, lastCheckIn: null };
+  }
+
+  const sorted = Array.from(new Set(checkIns)).sort();
+  const days = sorted.map(dayNumber);
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // The last run only counts as current if it reaches today or yesterday
+  const today = dayNumber(toDay(now));
+  const last = days[days.length - 1];
+  const current = today - last <= 1 ? run : 0;
+
+  return { current, longest, lastCheckIn: sorted[sorted.length - 1] };
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { ActionItem, getEngagementStore } from '../storage';
+import { isSafeId } from '../storage/json-directory';
+import { updateItem } from './items';
+
+/**
+ * Shared body of the per-item routes: validates the user, applies the change
+ * to the item atomically and shapes the response.
+ */
+export async function changeItemResponse(
+  userId: unknown,
+  id: string,
+  change: (item: ActionItem) => ActionItem,
+  action: string
+): Promise<NextResponse> {
+  if (typeof userId !== 'string' || !isSafeId(userId)) {
+    return NextResponse.json(
+      { error: 'A valid userId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let item: ActionItem | null = null;
+    await getEngagementStore().updateRecord(userId, (record) => {
+      const result = updateItem(record, id, change);
+      if (!result) {
+        return record;
+      }
+      item = result[1];
+      return result[0];
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ item });
+  } catch (error) {
+    console.error(`Error trying to ${action} action item:`, error);
+    return NextResponse.json(
+      { error: `Failed to ${action} action item` },
+      { status: 500 }
+    );
+  }
+}
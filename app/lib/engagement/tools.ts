@@ -0,0 +1,69 @@
+import { completeActionItem, createActionItem } from '../api/engagement';
+import { RealtimeTool } from '../openai/tools';
+
+export type CreateActionItemArgs = {
+  title: string;
+  kind: 'goal' | 'action';
+  due_date?: string;
+};
+
+export type CompleteActionItemArgs = {
+  item_id: string;
+};
+
+/**
+ * Tools that let CASEY record commitments and close them out on follow-up.
+ */
+export function createEngagementTools(getUserId: () => string): RealtimeTool[] {
+  const create: RealtimeTool<CreateActionItemArgs> = {
+    name: 'create_action_item',
+    description: 'Save a goal or action item the student committed to, so CASEY can follow up in a later session.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: {
+          type: 'string',
+          description: 'Short, specific description, e.g. "Email two UX designers for informational interviews"'
+        },
+        kind: {
+          type: 'string',
+          enum: ['goal', 'action'],
+          description: 'goal for a longer-term outcome, action for a concrete next step'
+        },
+        due_date: {
+          type: 'string',
+          description: 'Optional due date as YYYY-MM-DD, only if the student gave one'
+        }
+      },
+      required: ['title', 'kind'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const item = await createActionItem(getUserId(), {
+        title: args.title,
+        kind: args.kind,
+        dueDate: args.due_date || null
+      });
+      return { saved: true, item_id: item.id };
+    }
+  };
+
+  const complete: RealtimeTool<CompleteActionItemArgs> = {
+    name: 'complete_action_item',
+    description: 'Mark one of the student\'s open goals or action items as done.',
+    parameters: {
+      type: 'object',
+      properties: {
+        item_id: { type: 'string', description: 'Id of the item, as listed in your instructions' }
+      },
+      required: ['item_id'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      await completeActionItem(getUserId(), args.item_id);
+      return { completed: true };
+    }
+  };
+
+  return [create, complete];
+}
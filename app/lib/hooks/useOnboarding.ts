@@ -0,0 +1,112 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getOnboardingProgress, resetOnboarding, saveOnboardingAnswer } from '../api/onboarding';
+import { ONBOARDING_SCRIPT, OnboardingQuestion } from '../onboarding/script';
+import { OnboardingProgress } from '../storage/types';
+import { getUserId } from '../utils/user-id';
+
+export interface UseOnboardingReturn {
+  progress: OnboardingProgress | null;
+  // Question on screen; null once every question is answered
+  question: OnboardingQuestion | null;
+  questionIndex: number;
+  total: number;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  // Saves an answer and moves to the next unanswered question
+  submitAnswer: (text: string, values?: string[], questionId?: string) => Promise<OnboardingProgress>;
+  goBack: () => void;
+  restart: () => Promise<void>;
+}
+
+export function useOnboarding(userId?: string): UseOnboardingReturn {
+  const [progress, setProgress] = useState<OnboardingProgress | null>(null);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getOnboardingProgress(userId || getUserId())
+      .then((loaded) => {
+        if (!cancelled) {
+          setProgress(loaded);
+          setQuestionIndex(loaded.step);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load onboarding progress:', err);
+        if (!cancelled) {
+          setError('Could not load your progress');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const submitAnswer = useCallback(async (text: string, values?: string[], questionId?: string) => {
+    const id = questionId || ONBOARDING_SCRIPT[questionIndex]?.id;
+    if (!id) {
+      throw new Error('Onboarding is already complete');
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveOnboardingAnswer(userId || getUserId(), id, text, values);
+      setProgress(saved);
+      setQuestionIndex(saved.step);
+      return saved;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save your answer');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [questionIndex, userId]);
+
+  const goBack = useCallback(() => {
+    setQuestionIndex(index => Math.max(0, index - 1));
+  }, []);
+
+  const restart = useCallback(async () => {
+    const id = userId || getUserId();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await resetOnboarding(id);
+      const fresh = await getOnboardingProgress(id);
+      setProgress(fresh);
+      setQuestionIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start over');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [userId]);
+
+  return {
+    progress,
+    question: ONBOARDING_SCRIPT[questionIndex] || null,
+    questionIndex,
+    total: ONBOARDING_SCRIPT.length,
+    isLoading,
+    isSaving,
+    error,
+    submitAnswer,
+    goBack,
+    restart
+  };
+}
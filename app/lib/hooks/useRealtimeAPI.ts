@@ -1,98 +1,407 @@
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { RealtimeClient, SessionConfig } from '../openai/realtime-client';
+import { createConversation, getConversation, saveConversationItems } from '../api/conversations';
+import { checkIn, getEngagement } from '../api/engagement';
+import { getOnboardingProgress } from '../api/onboarding';
+import { formatEngagementInstructions } from '../engagement/instructions';
+import { createEngagementTools } from '../engagement/tools';
+import { formatProfileInstructions } from '../onboarding/instructions';
+import { InterruptionController, PlaybackControl } from '../openai/interruption';
+import { RealtimeSession } from '../openai/realtime-session';
+import { ResumeMode, buildResumeItems } from '../openai/resume';
+import { RealtimeTool } from '../openai/tools';
+import {
+  DEFAULT_TURN_MODE,
+  DEFAULT_VAD,
+  MIN_PUSH_TO_TALK_MS,
+  TurnMode,
+  VadSettings,
+  turnDetectionFor
+} from '../openai/turn-detection';
+import { TokenProvider, createTokenProvider } from '../openai/token-provider';
+import { DEFAULT_TRANSPORT, transportConfigFor } from '../openai/transports';
+import { getPersona } from '../prompts/registry';
+import { ConversationItem, Modality, SessionConfig, TransportType } from '../types/realtime';
+import {
+  TranscriptMessage,
+  applyAssistantDelta,
+  applyAssistantDone,
+  applyItemCreated,
+  applyResponseDone,
+  applyUserTranscript
+} from '../utils/transcript';
+import { getUserId } from '../utils/user-id';
 
 export interface UseRealtimeAPIOptions {
-  apiKey: string;
+  // Defaults to NEXT_PUBLIC_REALTIME_TRANSPORT, then WebRTC
+  transport?: TransportType;
+  // Supplies ephemeral session tokens; defaults to minting them via /api/realtime
+  tokenProvider?: TokenProvider;
   sessionConfig?: SessionConfig;
+  // Registry persona for the base instructions, e.g. "casey" or "casey@1"
+  // (default: the registry's default). Ignored when sessionConfig is given.
+  persona?: string;
+  // Appended to the session instructions; changes are pushed to a live session
+  extraInstructions?: string;
+  // Add the student's onboarding profile to the instructions (default true)
+  includeProfile?: boolean;
+  // Track goals and action items, follow up on open ones and count the
+  // session as a check-in (default true)
+  includeEngagement?: boolean;
+  // Functions CASEY can call mid-conversation
+  tools?: RealtimeTool[];
+  // Initial turn taking (default server VAD); switch live with setTurnMode
+  turnMode?: TurnMode;
+  // Initial server VAD tuning (default: the normal preset); see setVad
+  vad?: VadSettings;
+  // Let CASEY answer each turn on its own (default true). Off, turns are only
+  // transcribed and the page asks for responses itself, e.g. an interview.
+  autoRespond?: boolean;
+  // Save every turn to /api/conversations (default true)
+  persistHistory?: boolean;
+  // Defaults to the anonymous per-browser id
+  userId?: string;
+  // How stored turns are re-seeded into a new session (default 'replay')
+  resumeMode?: ResumeMode;
+  // Continue a past conversation instead of starting a new one
+  resumeConversationId?: string;
   onTranscript?: (transcript: string) => void;
+  // Speech boundaries in ms: server VAD's, on the session's input audio
+  // clock, or a committed push-to-talk turn's press and release, on the
+  // page's clock. Either way only differences between them are meaningful.
+  onSpeechStarted?: (audioStartMs: number) => void;
+  onSpeechStopped?: (audioEndMs: number) => void;
   onResponse?: (response: string) => void;
-  onAudioResponse?: (audioData: string) => void;
+  // Text-modality output (e.g. a text-only response), streamed and final
+  onTextDelta?: (delta: string, responseId: string) => void;
+  onTextDone?: (text: string, responseId: string) => void;
+  // Every finished response; status is 'completed', 'cancelled', 'failed' or
+  // 'incomplete'. Text callbacks never see the last three end.
+  onResponseDone?: (responseId: string, status: string) => void;
+  // Show text-modality output in the transcript (default true). Turn off when
+  // a page renders it elsewhere, such as a document panel.
+  showTextResponses?: boolean;
+  // Base64 PCM16 chunk of the assistant item being spoken
+  onAudioResponse?: (audioData: string, itemId: string) => void;
+  // The player onAudioResponse feeds, so barge-in can stop it and truncate
+  // CASEY's turn to what was heard
+  playback?: () => PlaybackControl | null;
   onError?: (error: Error | unknown) => void;
   debug?: boolean;
 }
 
+export interface ConnectOptions {
+  microphone?: boolean;
+}
+
 export interface UseRealtimeAPIReturn {
   isConnected: boolean;
   isListening: boolean;
   isSpeaking: boolean;
+  // True while prior turns are being replayed into a new session
+  isResuming: boolean;
+  // True between an unexpected drop and the automatic reconnect finishing
+  isReconnecting: boolean;
+  // The microphone goes out as a WebRTC media track, not through sendAudio,
+  // so client-side gating of the captured audio has no effect
+  microphoneTrack: boolean;
   transcript: string;
   response: string;
-  connect: () => Promise<void>;
+  // Every turn of the live conversation, in order
+  messages: TranscriptMessage[];
+  conversationId: string | null;
+  // Pass microphone: false to connect for typed chat without asking for mic
+  // permission (WebRTC only)
+  connect: (options?: ConnectOptions) => Promise<void>;
   disconnect: () => void;
+  turnMode: TurnMode;
+  setTurnMode: (mode: TurnMode) => void;
+  vad: VadSettings;
+  // Applied to a live session when in server VAD mode, and kept for later
+  setVad: (vad: VadSettings) => void;
+  // In push-to-talk these start a turn (interrupting CASEY) and end it by
+  // committing the audio and asking for a response
   startListening: () => void;
   stopListening: () => void;
+  // PCM16 24 kHz mono, as produced by AudioCapture. Ignored when a WebRTC
+  // session already carries the microphone as a media track.
   sendAudio: (audioData: ArrayBuffer) => void;
-  sendText: (text: string) => void;
+  // Sends a typed message; modalities (e.g. ['text']) pick how CASEY replies.
+  // Returns false when there is no live session.
+  sendText: (text: string, modalities?: Modality[]) => boolean;
+  // Asks CASEY to respond now; instructions replace extraInstructions for this
+  // response and modalities (e.g. ['text']) override the session's. Returns
+  // false when there is no live session.
+  requestResponse: (instructions?: string, modalities?: Modality[]) => boolean;
+  // Adds background material (e.g. an uploaded resume) as a system message.
+  // Sent now if connected and again to every new session until cleared.
+  addContext: (text: string) => void;
   cancelResponse: () => void;
   clearConversation: () => void;
 }
 
+function contextItem(text: string): ConversationItem {
+  return { type: 'message', role: 'system', content: [{ type: 'input_text', text }] };
+}
+
 export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIReturn {
   const [isConnected, setIsConnected] = useState(false);
   const [isListening, setIsListening] = useState(false);
+  const [turnMode, setTurnModeState] = useState<TurnMode>(options.turnMode || DEFAULT_TURN_MODE);
+  const [vad, setVadState] = useState<VadSettings>(options.vad || DEFAULT_VAD);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [transcript, setTranscript] = useState('');
   const [response, setResponse] = useState('');
+  const [messages, setMessages] = useState<TranscriptMessage[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [connectedWithTrack, setConnectedWithTrack] = useState(false);
   
-  const clientRef = useRef<RealtimeClient | null>(null);
+  const clientRef = useRef<RealtimeSession | null>(null);
   const audioBufferRef = useRef<string[]>([]);
   const responseTextRef = useRef<string>('');
+  const conversationRef = useRef<Promise<string> | null>(null);
+  const seededIdsRef = useRef<Set<string>>(new Set());
+  const baseInstructionsRef = useRef<string>('');
+  const profileInstructionsRef = useRef<string>('');
+  const contextItemsRef = useRef<string[]>([]);
+  // WebRTC sessions opened with the microphone already stream it as a track
+  const microphoneTrackRef = useRef(false);
+  const interruptionRef = useRef<InterruptionController | null>(null);
+  const turnModeRef = useRef(turnMode);
+  const vadRef = useRef(vad);
+  const autoRespond = options.autoRespond !== false;
+  const autoRespondRef = useRef(autoRespond);
+  // Read by stable callbacks such as stopListening
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Start of the push-to-talk turn in progress
+  const talkStartedAtRef = useRef<number | null>(null);
+  const engagementInstructionsRef = useRef<string>('');
 
-  const connect = useCallback(async () => {
-    const defaultSessionConfig: SessionConfig = {
-    modalities: ['text', 'audio'],
-    instructions: `You are CASEY, a helpful and encouraging career advisor for students. 
-      Your role is to:
-      - Help students explore career paths based on their interests and skills
-      - Provide information about different careers and industries
-      - Assist with job searching and application strategies
-      - Offer interview preparation and practice
-      - Guide resume and cover letter creation
-      - Give advice on professional development and networking
-      - Be supportive, encouraging, and empathetic
-      - Use simple, clear language appropriate for students
-      - Ask clarifying questions to better understand student needs
-      - Provide actionable advice and next steps
-      
-      Language capability:
-      - You can communicate fluently in multiple languages
-      - If a user asks you to speak in a different language (e.g., "Can you speak in Urdu?", "Talk to me in Spanish", "Switch to French"), immediately switch to that language
-      - Continue the conversation in the requested language until asked to switch again
-      - Maintain the same helpful, encouraging tone regardless of language
-      - If you don't know a requested language well, politely explain this in the current language`,
-    voice: 'alloy',
-    input_audio_format: 'pcm16',
-    output_audio_format: 'pcm16',
-    input_audio_transcription: {
-      model: 'whisper-1'
-    },
-    turn_detection: {
-      type: 'server_vad',
-      threshold: 0.5,
-      prefix_padding_ms: 300,
-      silence_duration_ms: 200
-    },
-    temperature: 0.8,
-    max_response_output_tokens: 'inf'
-  };
+  const persistHistory = options.persistHistory !== false;
+  const userId = options.userId;
+
+  const persistItem = useCallback((item: ConversationItem) => {
+    if (!persistHistory || !item.id) {
+      return;
+    }
+
+    // Create the conversation lazily so empty sessions leave no record
+    if (!conversationRef.current) {
+      conversationRef.current = createConversation(userId || getUserId()).then((conversation) => {
+        setConversationId(conversation.id);
+        return conversation.id;
+      });
+      conversationRef.current.catch(() => {
+        conversationRef.current = null;
+      });
+    }
+
+    // Audio payloads are large and replayable only within the live session
+    const content = item.content?.map(part => ({ ...part, audio: undefined }));
+
+    conversationRef.current
+      .then(id => saveConversationItems(id, userId || getUserId(), [{
+        ...item,
+        id: item.id!,
+        content,
+        sessionId: clientRef.current?.getSessionId() || null,
+        createdAt: new Date().toISOString()
+      }]))
+      .catch(error => console.error('Failed to save conversation item:', error));
+  }, [persistHistory, userId]);
+
+  const includeProfile = options.includeProfile !== false;
+  const extraInstructions = options.extraInstructions;
+
+  const composeInstructions = useCallback((extra?: string) => {
+    return [baseInstructionsRef.current, profileInstructionsRef.current, engagementInstructionsRef.current, extra]
+      .filter(Boolean)
+      .join('\n\n');
+  }, []);
+
+  const loadProfileInstructions = useCallback(async () => {
+    if (!includeProfile) {
+      profileInstructionsRef.current = '';
+      return;
+    }
+
+    try {
+      const progress = await getOnboardingProgress(userId || getUserId());
+      profileInstructionsRef.current = formatProfileInstructions(progress.profile);
+    } catch (error) {
+      // Coaching works without a profile, just less personally
+      console.error('Failed to load onboarding profile:', error);
+      profileInstructionsRef.current = '';
+    }
+  }, [includeProfile, userId]);
+
+  const includeEngagement = options.includeEngagement !== false;
+
+  const loadEngagementInstructions = useCallback(async () => {
+    if (!includeEngagement) {
+      engagementInstructionsRef.current = '';
+      return;
+    }
+
+    const id = userId || getUserId();
+    try {
+      const [engagement, streak] = await Promise.all([getEngagement(id), checkIn(id)]);
+      engagementInstructionsRef.current = formatEngagementInstructions(engagement.outstanding, streak);
+    } catch (error) {
+      console.error('Failed to load goals and action items:', error);
+      engagementInstructionsRef.current = '';
+    }
+  }, [includeEngagement, userId]);
+
+  const resumeMode = options.resumeMode || 'replay';
+  const resumeConversationId = options.resumeConversationId;
+
+  // Replays stored turns into a freshly connected session so CASEY keeps
+  // context across dropped connections and page reloads
+  const resumeInto = useCallback(async (client: RealtimeSession) => {
+    if (resumeMode === 'off') {
+      return;
+    }
+
+    if (!conversationRef.current && resumeConversationId) {
+      conversationRef.current = Promise.resolve(resumeConversationId);
+      setConversationId(resumeConversationId);
+    }
+
+    if (!conversationRef.current) {
+      return;
+    }
+
+    setIsResuming(true);
+    try {
+      const conversation = await getConversation(await conversationRef.current, userId || getUserId());
+      if (!client.getConnectionStatus()) {
+        return;
+      }
+      const seed = buildResumeItems(conversation.items, resumeMode);
+
+      seed.forEach(item => {
+        seededIdsRef.current.add(item.id!);
+        client.createConversationItem(item);
+      });
+
+      setMessages(prev => prev.length > 0
+        ? prev
+        : conversation.items.reduce(applyItemCreated, [] as TranscriptMessage[]));
+    } catch (error) {
+      console.error('Failed to resume conversation:', error);
+    } finally {
+      setIsResuming(false);
+    }
+  }, [resumeMode, resumeConversationId, userId]);
+
+  const connect = useCallback(async ({ microphone }: ConnectOptions = {}) => {
     if (clientRef.current?.getConnectionStatus()) {
       return;
     }
 
+    // Drop a session whose connection closed underneath us
+    if (clientRef.current) {
+      clientRef.current.disconnect();
+      clientRef.current = null;
+      interruptionRef.current?.dispose();
+      interruptionRef.current = null;
+    }
+
+    // Torn down if connecting fails part-way, so a half-open peer connection
+    // doesn't keep the microphone
+    let session: RealtimeSession | null = null;
+    let controller: InterruptionController | null = null;
+
     try {
-      const client = new RealtimeClient({
-        apiKey: options.apiKey,
+      // An unknown persona throws here, inside the try, so onError hears it
+      const defaultSessionConfig: SessionConfig = {
+        modalities: ['text', 'audio'],
+        instructions: getPersona(options.persona).instructions,
+        voice: 'alloy',
+        input_audio_format: 'pcm16',
+        output_audio_format: 'pcm16',
+        input_audio_transcription: {
+          model: 'whisper-1'
+        },
+        turn_detection: turnDetectionFor(turnModeRef.current, vadRef.current, autoRespondRef.current),
+        temperature: 0.8,
+        max_response_output_tokens: 'inf'
+      };
+
+      const tokenProvider = options.tokenProvider || createTokenProvider({
+        config: options.sessionConfig || defaultSessionConfig
+      });
+      const transport = options.transport || DEFAULT_TRANSPORT;
+      const client = new RealtimeSession({
+        transport: transportConfigFor(transport, tokenProvider, { microphone }),
+        tools: includeEngagement
+          ? [...(options.tools || []), ...createEngagementTools(() => userId || getUserId())]
+          : options.tools,
         debug: options.debug
       });
+      session = client;
+      // Push to talk keeps a WebRTC microphone track muted until a press
+      client.setMicrophoneEnabled(turnModeRef.current !== 'push_to_talk');
+
+      const sessionConfig = options.sessionConfig || defaultSessionConfig;
+      baseInstructionsRef.current = sessionConfig.instructions || '';
+
+      const sendContext = () => {
+        contextItemsRef.current.forEach(text => client.createConversationItem(contextItem(text)));
+      };
+
+      // Async listeners nobody awaits: the connection can drop during the
+      // fetches, so re-check it and report failures instead of rejecting
+      const onSetupError = (error: unknown) => {
+        console.error('Failed to set up Realtime session:', error);
+        options.onError?.(error);
+      };
 
-      client.on('connected', () => {
-        setIsConnected(true);
-        client.updateSession(options.sessionConfig || defaultSessionConfig);
+      client.on('connected', async () => {
+        try {
+          await Promise.all([loadProfileInstructions(), loadEngagementInstructions()]);
+          if (!client.getConnectionStatus()) return;
+          client.updateSession({
+            ...sessionConfig,
+            instructions: composeInstructions(options.extraInstructions)
+          });
+          await resumeInto(client);
+          if (!client.getConnectionStatus()) return;
+          sendContext();
+          setIsConnected(true);
+        } catch (error) {
+          onSetupError(error);
+        }
+      });
+
+      client.on('reconnecting', () => {
+        setIsReconnecting(true);
+        setIsConnected(false);
+        setIsListening(false);
+        setIsSpeaking(false);
+      });
+
+      // The session restores its own config; the new server session still
+      // needs the conversation so far
+      client.on('reconnected', async () => {
+        try {
+          await resumeInto(client);
+          if (!client.getConnectionStatus()) return;
+          sendContext();
+          setIsReconnecting(false);
+          setIsConnected(true);
+        } catch (error) {
+          onSetupError(error);
+        }
       });
 
       client.on('disconnected', () => {
+        setIsReconnecting(false);
         setIsConnected(false);
         setIsListening(false);
         setIsSpeaking(false);
@@ -102,46 +411,101 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
         console.log('Session created:', session.id);
       });
 
-      client.on('input_audio_buffer.speech_started', () => {
+      client.on('input_audio_buffer.speech_started', (event) => {
         setIsListening(true);
         setTranscript('Listening...');
         responseTextRef.current = '';
+        options.onSpeechStarted?.(event.audio_start_ms);
       });
 
-      client.on('input_audio_buffer.speech_stopped', () => {
+      client.on('input_audio_buffer.speech_stopped', (event) => {
         setIsListening(false);
+        options.onSpeechStopped?.(event.audio_end_ms);
+      });
+
+      client.on('conversation.item.created', (item: ConversationItem) => {
+        // Replayed history is already stored and displayed
+        if (item.id && seededIdsRef.current.has(item.id)) {
+          return;
+        }
+        setMessages(prev => applyItemCreated(prev, item));
+        // Typed user messages arrive complete; spoken ones are saved once transcribed
+        if (item.role === 'user' && item.content?.some(part => part.type === 'input_text')) {
+          persistItem(item);
+        }
       });
 
       client.on('conversation.item.input_audio_transcription.completed', (event) => {
         const transcriptText = event.transcript || '';
         setTranscript(transcriptText);
+        setMessages(prev => applyUserTranscript(prev, event.item_id, transcriptText));
+        persistItem({
+          id: event.item_id,
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_audio', transcript: transcriptText }]
+        });
         if (options.onTranscript) {
           options.onTranscript(transcriptText);
         }
       });
 
+      client.on('conversation.item.input_audio_transcription.failed', (event) => {
+        setMessages(prev => applyUserTranscript(prev, event.item_id, '', true));
+      });
+
       client.on('response.created', () => {
         setIsSpeaking(true);
         responseTextRef.current = '';
         audioBufferRef.current = [];
       });
 
-      client.on('response.audio_transcript.delta', (delta) => {
-        responseTextRef.current += delta;
+      client.on('response.audio_transcript.delta', (event) => {
+        responseTextRef.current += event.delta;
         setResponse(responseTextRef.current);
+        setMessages(prev => applyAssistantDelta(prev, event.item_id, event.delta));
       });
 
-      client.on('response.audio_transcript.done', (finalTranscript) => {
-        setResponse(finalTranscript);
+      client.on('response.audio_transcript.done', (event) => {
+        setResponse(event.transcript);
+        setMessages(prev => applyAssistantDone(prev, event.item_id, event.transcript));
         if (options.onResponse) {
-          options.onResponse(finalTranscript);
+          options.onResponse(event.transcript);
         }
       });
 
-      client.on('response.audio.delta', (delta) => {
-        audioBufferRef.current.push(delta);
+      const showText = options.showTextResponses !== false;
+
+      client.on('response.text.delta', (event) => {
+        if (showText) {
+          setMessages(prev => applyAssistantDelta(prev, event.item_id, event.delta));
+        }
+        options.onTextDelta?.(event.delta, event.response_id);
+      });
+
+      client.on('response.text.done', (event) => {
+        if (showText) {
+          setMessages(prev => applyAssistantDone(prev, event.item_id, event.text));
+        }
+        options.onTextDone?.(event.text, event.response_id);
+      });
+
+      const interruption = new InterruptionController(client, () => options.playback?.() || null);
+      controller = interruption;
+
+      client.on('response.audio.delta', (event) => {
+        if (!interruption.shouldPlay(event.item_id)) {
+          return;
+        }
+        audioBufferRef.current.push(event.delta);
         if (options.onAudioResponse) {
-          options.onAudioResponse(delta);
+          options.onAudioResponse(event.delta, event.item_id);
+        }
+      });
+
+      client.on('response.output_item.done', (item: ConversationItem) => {
+        if (item.type === 'message' && item.role === 'assistant') {
+          persistItem(item);
         }
       });
 
@@ -149,8 +513,15 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
         setIsSpeaking(false);
       });
 
-      client.on('response.done', () => {
+      client.on('response.done', (response) => {
         setIsSpeaking(false);
+        setMessages(prev => applyResponseDone(prev, response.id, response.output || []));
+        options.onResponseDone?.(response.id, response.status);
+      });
+
+      // Malformed or unknown server events never reach the handlers above
+      client.on('protocol_error', (error) => {
+        console.error(`Realtime protocol error (${error.reason}):`, error.problems, error.raw);
       });
 
       client.on('error', (error) => {
@@ -162,30 +533,95 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
 
       await client.connect();
       clientRef.current = client;
+      interruptionRef.current = interruption;
+      microphoneTrackRef.current = transport === 'webrtc' && microphone !== false;
+      setConnectedWithTrack(microphoneTrackRef.current);
     } catch (error) {
       console.error('Failed to connect to Realtime API:', error);
+      session?.disconnect();
+      controller?.dispose();
       if (options.onError) {
         options.onError(error);
       }
       throw error;
     }
-  }, [options]);
+  }, [
+    options,
+    includeEngagement,
+    userId,
+    persistItem,
+    resumeInto,
+    loadProfileInstructions,
+    loadEngagementInstructions,
+    composeInstructions
+  ]);
+
+  // Keep a live session in step with the caller's extra instructions
+  useEffect(() => {
+    if (!isConnected || !clientRef.current?.getConnectionStatus()) {
+      return;
+    }
+    clientRef.current.updateSession({ instructions: composeInstructions(extraInstructions) });
+  }, [isConnected, extraInstructions, composeInstructions]);
+
+  // Server VAD reads create_response from turn_detection; push to talk
+  // checks the ref on release
+  useEffect(() => {
+    if (autoRespondRef.current === autoRespond) {
+      return;
+    }
+    autoRespondRef.current = autoRespond;
+    if (turnModeRef.current === 'server_vad' && clientRef.current?.getConnectionStatus()) {
+      clientRef.current.updateSession({ turn_detection: turnDetectionFor('server_vad', vadRef.current, autoRespond) });
+    }
+  }, [autoRespond]);
 
   const disconnect = useCallback(() => {
     if (clientRef.current) {
       clientRef.current.disconnect();
       clientRef.current = null;
+      interruptionRef.current?.dispose();
+      interruptionRef.current = null;
       setIsConnected(false);
+      setIsReconnecting(false);
       setIsListening(false);
       setIsSpeaking(false);
     }
   }, []);
 
+  const setTurnMode = useCallback((mode: TurnMode) => {
+    turnModeRef.current = mode;
+    talkStartedAtRef.current = null;
+    setTurnModeState(mode);
+    setIsListening(false);
+    clientRef.current?.setMicrophoneEnabled(mode !== 'push_to_talk');
+    // Kept by the session, so a reconnect restores it
+    if (clientRef.current?.getConnectionStatus()) {
+      clientRef.current.updateSession({ turn_detection: turnDetectionFor(mode, vadRef.current, autoRespondRef.current) });
+    }
+  }, []);
+
+  const setVad = useCallback((settings: VadSettings) => {
+    vadRef.current = settings;
+    setVadState(settings);
+    if (turnModeRef.current === 'server_vad' && clientRef.current?.getConnectionStatus()) {
+      clientRef.current.updateSession({ turn_detection: turnDetectionFor('server_vad', settings, autoRespondRef.current) });
+    }
+  }, []);
+
   const startListening = useCallback(() => {
     if (!clientRef.current?.getConnectionStatus()) {
       console.error('Not connected to Realtime API');
       return;
     }
+
+    if (turnModeRef.current === 'push_to_talk') {
+      // Talking over CASEY stops it; drop whatever was heard before the press
+      interruptionRef.current?.interrupt();
+      clientRef.current.clearInputAudio();
+      clientRef.current.setMicrophoneEnabled(true);
+      talkStartedAtRef.current = Date.now();
+    }
     setIsListening(true);
   }, []);
 
@@ -193,9 +629,31 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
     if (!clientRef.current?.getConnectionStatus()) {
       return;
     }
-    
-    clientRef.current.commitInputAudio();
     setIsListening(false);
+
+    if (turnModeRef.current !== 'push_to_talk') {
+      clientRef.current.commitInputAudio();
+      return;
+    }
+
+    clientRef.current.setMicrophoneEnabled(false);
+    const startedAt = talkStartedAtRef.current;
+    talkStartedAtRef.current = null;
+    if (startedAt === null) {
+      return;
+    }
+    // A tap rather than a turn
+    if (Date.now() - startedAt < MIN_PUSH_TO_TALK_MS) {
+      clientRef.current.clearInputAudio();
+      return;
+    }
+    clientRef.current.commitInputAudio();
+    // No server VAD events here, so the press and release mark the speech
+    optionsRef.current.onSpeechStarted?.(startedAt);
+    optionsRef.current.onSpeechStopped?.(Date.now());
+    if (autoRespondRef.current) {
+      clientRef.current.createResponse();
+    }
   }, []);
 
   const sendAudio = useCallback((audioData: ArrayBuffer) => {
@@ -203,40 +661,74 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
       console.error('Not connected to Realtime API');
       return;
     }
-    
+    // Appending as well would make the server hear everything twice; push
+    // to talk mutes that track between presses instead
+    if (microphoneTrackRef.current) {
+      return;
+    }
+    // Push-to-talk only sends audio while the button is held
+    if (turnModeRef.current === 'push_to_talk' && talkStartedAtRef.current === null) {
+      return;
+    }
+
     clientRef.current.appendInputAudio(audioData);
   }, []);
 
-  const sendText = useCallback((text: string) => {
+  const sendText = useCallback((text: string, modalities?: Modality[]) => {
     if (!clientRef.current?.getConnectionStatus()) {
       console.error('Not connected to Realtime API');
-      return;
+      return false;
     }
     
     clientRef.current.createConversationItem({
-      id: `msg_${Date.now()}`,
       type: 'message',
       role: 'user',
       content: [{
-        type: 'text',
+        type: 'input_text',
         text: text
       }]
     });
     
-    clientRef.current.createResponse();
+    clientRef.current.createResponse({ modalities });
     setTranscript(text);
+    return true;
   }, []);
 
+  const requestResponse = useCallback((instructions?: string, modalities?: Modality[]) => {
+    if (!clientRef.current?.getConnectionStatus()) {
+      return false;
+    }
+
+    clientRef.current.createResponse({
+      instructions: instructions === undefined ? undefined : composeInstructions(instructions),
+      modalities
+    });
+    return true;
+  }, [composeInstructions]);
+
   const cancelResponse = useCallback(() => {
     if (!clientRef.current?.getConnectionStatus()) {
       return;
     }
     
-    clientRef.current.cancelResponse();
+    // Also stops local playback and truncates what wasn't heard
+    interruptionRef.current?.interrupt();
     setIsSpeaking(false);
   }, []);
 
+  const addContext = useCallback((text: string) => {
+    contextItemsRef.current.push(text);
+    if (clientRef.current?.getConnectionStatus()) {
+      clientRef.current.createConversationItem(contextItem(text));
+    }
+  }, []);
+
   const clearConversation = useCallback(() => {
+    // Later turns go into a fresh conversation; history stays on the server
+    conversationRef.current = null;
+    contextItemsRef.current = [];
+    setConversationId(null);
+    setMessages([]);
     setTranscript('');
     setResponse('');
     responseTextRef.current = '';
@@ -253,14 +745,28 @@ export function useRealtimeAPI(options: UseRealtimeAPIOptions): UseRealtimeAPIRe
     isConnected,
     isListening,
     isSpeaking,
+    isResuming,
+    isReconnecting,
+    // Before connecting, what a connect with the microphone would do
+    microphoneTrack: isConnected
+      ? connectedWithTrack
+      : (options.transport || DEFAULT_TRANSPORT) === 'webrtc',
     transcript,
     response,
+    messages,
+    conversationId,
     connect,
     disconnect,
+    turnMode,
+    setTurnMode,
+    vad,
+    setVad,
     startListening,
     stopListening,
     sendAudio,
     sendText,
+    requestResponse,
+    addContext,
     cancelResponse,
     clearConversation
   };
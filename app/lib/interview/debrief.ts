@@ -0,0 +1,42 @@
+import { AnswerTiming, InterviewAnswerFeedback, InterviewDebrief } from '../storage/types';
+import { InterviewSetup } from './prompts';
+import { SubmitDebriefArgs } from './tools';
+
+// Mean answer score to one decimal, 0 for an empty interview
+export function averageScore(answers: InterviewAnswerFeedback[]): number {
+  if (answers.length === 0) {
+    return 0;
+  }
+  const total = answers.reduce((sum, answer) => sum + answer.score, 0);
+  return Math.round((total / answers.length) * 10) / 10;
+}
+
+/**
+ * Joins CASEY's scores with the measured answer timings. The overall score
+ * is computed here rather than trusted from the model.
+ */
+export function buildDebrief(
+  setup: InterviewSetup,
+  args: SubmitDebriefArgs,
+  timings: (AnswerTiming | null)[]
+): InterviewDebrief {
+  const answers: InterviewAnswerFeedback[] = args.answers
+    .slice()
+    .sort((a, b) => a.question_number - b.question_number)
+    .map(answer => ({
+      questionNumber: answer.question_number,
+      question: answer.question,
+      score: answer.score,
+      strengths: answer.strengths,
+      improvements: answer.improvements,
+      timing: timings[answer.question_number - 1] || null
+    }));
+
+  return {
+    role: setup.role,
+    seniority: setup.seniority,
+    overallScore: averageScore(answers),
+    summary: args.summary,
+    answers
+  };
+}
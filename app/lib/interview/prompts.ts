@@ -0,0 +1,69 @@
+import { getModeInstructions, renderNamedTemplate } from '../prompts/registry';
+import { AnswerTiming, InterviewSeniority } from '../storage/types';
+import { formatDuration } from './timing';
+
+export interface InterviewSetup {
+  role: string;
+  seniority: InterviewSeniority;
+}
+
+export interface InterviewQuestionSlot {
+  category: string;
+  // What the question should probe
+  focus: string;
+}
+
+export const SENIORITY_LABELS: Record<InterviewSeniority, string> = {
+  internship: 'Internship',
+  'entry-level': 'Entry level',
+  experienced: 'Experienced'
+};
+
+// Every interview asks one question per slot, in this order
+export const INTERVIEW_PLAN: InterviewQuestionSlot[] = [
+  { category: 'Introduction', focus: 'a short "tell me about yourself" style opener tied to the role' },
+  { category: 'Motivation', focus: 'why this role and this kind of organization' },
+  { category: 'Behavioral', focus: 'a past situation, answered in STAR form (situation, task, action, result)' },
+  { category: 'Role-specific', focus: 'a skill or knowledge area central to the role, pitched at the level' },
+  { category: 'Situational', focus: 'how they would handle a realistic challenge in the role' }
+];
+
+export const INTERVIEW_QUESTION_COUNT = INTERVIEW_PLAN.length;
+
+// Session instructions for the whole interview
+export function buildInterviewInstructions(setup: InterviewSetup): string {
+  return getModeInstructions('interview', {
+    targetRole: setup.role,
+    seniority: SENIORITY_LABELS[setup.seniority]
+  });
+}
+
+// Per-response instructions that ask the given question
+export function buildQuestionPrompt(index: number, setup: InterviewSetup): string {
+  const slot = INTERVIEW_PLAN[index];
+  return renderNamedTemplate(index === 0 ? 'interview-first-question' : 'interview-next-question', {
+    instructions: buildInterviewInstructions(setup),
+    questionNumber: index + 1,
+    questionCount: INTERVIEW_QUESTION_COUNT,
+    category: slot.category.toLowerCase(),
+    focus: slot.focus
+  });
+}
+
+// Per-response instructions for the scored debrief
+export function buildDebriefPrompt(setup: InterviewSetup, timings: (AnswerTiming | null)[]): string {
+  const timingLines = INTERVIEW_PLAN.map((slot, index) => {
+    const timing = timings[index];
+    return renderNamedTemplate(timing ? 'interview-answer-timing' : 'interview-answer-missing', {
+      questionNumber: index + 1,
+      category: slot.category,
+      duration: timing ? formatDuration(timing.speakingMs) : null
+    });
+  }).join('\n');
+
+  return renderNamedTemplate('interview-debrief', {
+    instructions: buildInterviewInstructions(setup),
+    questionCount: INTERVIEW_QUESTION_COUNT,
+    timings: timingLines
+  });
+}
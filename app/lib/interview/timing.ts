@@ -0,0 +1,49 @@
+import { AnswerTiming } from '../storage/types';
+
+// Tracks one answer from the server VAD's speech_started/speech_stopped
+// events, whose audio_start_ms/audio_end_ms are on the session's input audio
+// clock so network delays don't skew them, or from push-to-talk presses and
+// releases.
+export class AnswerTimer {
+  private firstStartMs: number | null = null;
+  private lastEndMs: number | null = null;
+  private openStartMs: number | null = null;
+  private speakingMs = 0;
+  private segments = 0;
+
+  speechStarted(audioStartMs: number): void {
+    this.openStartMs = audioStartMs;
+    if (this.firstStartMs === null) {
+      this.firstStartMs = audioStartMs;
+    }
+  }
+
+  speechStopped(audioEndMs: number): void {
+    // A stop without a start belongs to speech before this answer began
+    if (this.openStartMs === null) {
+      return;
+    }
+    this.speakingMs += Math.max(0, audioEndMs - this.openStartMs);
+    this.segments += 1;
+    this.lastEndMs = audioEndMs;
+    this.openStartMs = null;
+  }
+
+  // null when the student hasn't spoken yet
+  result(): AnswerTiming | null {
+    if (this.firstStartMs === null || this.lastEndMs === null) {
+      return null;
+    }
+    return {
+      speakingMs: this.speakingMs,
+      spanMs: this.lastEndMs - this.firstStartMs,
+      segments: this.segments
+    };
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+}
@@ -0,0 +1,65 @@
+import { RealtimeTool } from '../openai/tools';
+import { INTERVIEW_QUESTION_COUNT } from './prompts';
+
+export type DebriefAnswerArgs = {
+  question_number: number;
+  question: string;
+  score: 1 | 2 | 3 | 4 | 5;
+  strengths: string;
+  improvements: string;
+};
+
+export type SubmitDebriefArgs = {
+  summary: string;
+  answers: DebriefAnswerArgs[];
+};
+
+/**
+ * The debrief tool: CASEY scores each answer and the page shows the result.
+ */
+export function createInterviewTools(onDebrief: (args: SubmitDebriefArgs) => void): RealtimeTool[] {
+  const submitDebrief: RealtimeTool<SubmitDebriefArgs> = {
+    name: 'submit_interview_debrief',
+    description: 'Show the student a scored debrief of the mock interview, with feedback on every answer.',
+    parameters: {
+      type: 'object',
+      properties: {
+        summary: {
+          type: 'string',
+          description: 'Two or three encouraging sentences on the interview overall, addressed to the student'
+        },
+        answers: {
+          type: 'array',
+          description: `One entry per question, ${INTERVIEW_QUESTION_COUNT} in total, in order`,
+          items: {
+            type: 'object',
+            properties: {
+              question_number: {
+                type: 'integer',
+                enum: Array.from({ length: INTERVIEW_QUESTION_COUNT }, (_, i) => i + 1)
+              },
+              question: { type: 'string', description: 'The question as you asked it' },
+              score: {
+                type: 'integer',
+                enum: [1, 2, 3, 4, 5],
+                description: '1 weak, 3 solid, 5 excellent for this role and level'
+              },
+              strengths: { type: 'string', description: 'What worked in the answer' },
+              improvements: { type: 'string', description: 'The most useful thing to change' }
+            },
+            required: ['question_number', 'question', 'score', 'strengths', 'improvements'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['summary', 'answers'],
+      additionalProperties: false
+    },
+    handler: (args) => {
+      onDebrief(args);
+      return { shown_to_student: true };
+    }
+  };
+
+  return [submitDebrief];
+}
@@ -0,0 +1,49 @@
+import { getModeInstructions, renderNamedTemplate } from '../prompts/registry';
+import { CareerProfile, OnboardingProgress } from '../storage/types';
+import { hasProfile } from './progress';
+import { ONBOARDING_SCRIPT } from './script';
+
+/**
+ * Profile section appended to CASEY's instructions in regular sessions.
+ */
+export function formatProfileInstructions(profile: CareerProfile): string {
+  if (!hasProfile(profile)) {
+    return '';
+  }
+
+  return renderNamedTemplate('profile', {
+    interests: profile.interests,
+    education: profile.education,
+    skills: profile.skills,
+    goals: profile.goals
+  });
+}
+
+/**
+ * Instructions for the onboarding session, focused on the question the
+ * student is currently on.
+ */
+export function buildOnboardingInstructions(progress: OnboardingProgress, questionIndex: number): string {
+  const question = ONBOARDING_SCRIPT[questionIndex];
+
+  if (!question) {
+    return renderNamedTemplate('onboarding-complete', {
+      profile: formatProfileInstructions(progress.profile)
+    });
+  }
+
+  const answered = progress.answers
+    .map(answer => `- ${answer.questionId}: ${answer.text}`)
+    .join('\n');
+
+  const instructions = getModeInstructions('onboarding', {
+    questionNumber: questionIndex + 1,
+    questionCount: ONBOARDING_SCRIPT.length,
+    questionId: question.id,
+    questionPrompt: question.prompt
+  });
+
+  return answered
+    ? `${instructions}\n\n${renderNamedTemplate('onboarding-answers', { answers: answered })}`
+    : instructions;
+}
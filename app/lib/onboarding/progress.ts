@@ -0,0 +1,83 @@
+import { CareerProfile, OnboardingAnswer, OnboardingProgress } from '../storage/types';
+import { ONBOARDING_SCRIPT } from './script';
+
+export function emptyProfile(): CareerProfile {
+  return { interests: [], education: '', skills: [], goals: [] };
+}
+
+export function createProgress(userId: string): OnboardingProgress {
+  return {
+    userId,
+    step: 0,
+    answers: [],
+    profile: emptyProfile(),
+    completedAt: null,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+// Spoken answers arrive as one sentence; split lists like
+// "design, music, and coding" into separate entries. A bare "and" stays, so
+// "research and development" is one entry.
+export function splitAnswer(text: string): string[] {
+  return text
+    .split(/,|;|\n/)
+    .map(value => value.trim().replace(/^(also|and)\s+/i, '').replace(/[.!]+$/, ''))
+    .filter(value => value.length > 0);
+}
+
+export function buildProfile(answers: OnboardingAnswer[]): CareerProfile {
+  const profile = emptyProfile();
+
+  for (const question of ONBOARDING_SCRIPT) {
+    const answer = answers.find(a => a.questionId === question.id);
+    if (!answer) {
+      continue;
+    }
+
+    if (question.field === 'education') {
+      profile.education = answer.text;
+    } else {
+      profile[question.field] = answer.values.length > 0 ? answer.values : splitAnswer(answer.text);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Records an answer (replacing any earlier answer to the same question) and
+ * recomputes the profile, the next step and completion.
+ */
+export function applyAnswer(
+  progress: OnboardingProgress,
+  answer: Omit<OnboardingAnswer, 'answeredAt'>
+): OnboardingProgress {
+  const now = new Date().toISOString();
+  const answers = [
+    ...progress.answers.filter(existing => existing.questionId !== answer.questionId),
+    { ...answer, answeredAt: now }
+  ];
+
+  const answered = new Set(answers.map(a => a.questionId));
+  const nextStep = ONBOARDING_SCRIPT.findIndex(question => !answered.has(question.id));
+  const step = nextStep === -1 ? ONBOARDING_SCRIPT.length : nextStep;
+
+  return {
+    ...progress,
+    step,
+    answers,
+    profile: buildProfile(answers),
+    completedAt: step === ONBOARDING_SCRIPT.length ? progress.completedAt || now : progress.completedAt,
+    updatedAt: now
+  };
+}
+
+export function hasProfile(profile: CareerProfile): boolean {
+  return Boolean(
+    profile.education ||
+    profile.interests.length ||
+    profile.skills.length ||
+    profile.goals.length
+  );
+}
@@ -0,0 +1,42 @@
+import { CareerProfile } from '../storage/types';
+
+export interface OnboardingQuestion {
+  id: string;
+  // Profile field the answer fills
+  field: keyof CareerProfile;
+  title: string;
+  // What CASEY asks, in its own words
+  prompt: string;
+}
+
+// Asked in order. Question ids are stored with answers, so rename with care.
+export const ONBOARDING_SCRIPT: OnboardingQuestion[] = [
+  {
+    id: 'interests',
+    field: 'interests',
+    title: 'What do you enjoy?',
+    prompt: 'What subjects, activities or hobbies do you enjoy the most, in or out of school?'
+  },
+  {
+    id: 'education',
+    field: 'education',
+    title: 'Where are you in your studies?',
+    prompt: 'Tell me about your education so far: what are you studying, and where are you in your program?'
+  },
+  {
+    id: 'skills',
+    field: 'skills',
+    title: 'What are you good at?',
+    prompt: 'What skills or strengths do people come to you for? Think about school, work, volunteering or hobbies.'
+  },
+  {
+    id: 'goals',
+    field: 'goals',
+    title: 'Where do you want to go?',
+    prompt: 'What would you like your career to look like in a few years? Any roles, industries or goals in mind?'
+  }
+];
+
+export function getQuestion(id: string): OnboardingQuestion | undefined {
+  return ONBOARDING_SCRIPT.find(question => question.id === id);
+}
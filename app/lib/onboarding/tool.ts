@@ -0,0 +1,53 @@
+import { OnboardingProgress } from '../storage/types';
+import { RealtimeTool } from '../openai/tools';
+import { ONBOARDING_SCRIPT } from './script';
+
+// A type alias rather than an interface so it satisfies Record<string, unknown>
+export type RecordAnswerArgs = {
+  question_id: string;
+  answer: string;
+  values?: string[];
+};
+
+/**
+ * Lets CASEY record an answer by voice. The result names the next question
+ * so the follow-up response can move straight on.
+ */
+export function createOnboardingTool(
+  saveAnswer: (args: RecordAnswerArgs) => Promise<OnboardingProgress>
+): RealtimeTool<RecordAnswerArgs> {
+  return {
+    name: 'record_onboarding_answer',
+    description: "Save the student's answer to the current onboarding question.",
+    parameters: {
+      type: 'object',
+      properties: {
+        question_id: {
+          type: 'string',
+          enum: ONBOARDING_SCRIPT.map(question => question.id),
+          description: 'Id of the question being answered'
+        },
+        answer: {
+          type: 'string',
+          description: "The student's answer, in their words"
+        },
+        values: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Individual items for list answers, e.g. each interest or skill'
+        }
+      },
+      required: ['question_id', 'answer'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const progress = await saveAnswer(args);
+      const next = ONBOARDING_SCRIPT[progress.step];
+      return {
+        saved: true,
+        complete: progress.completedAt !== null,
+        next_question: next ? { id: next.id, prompt: next.prompt } : null
+      };
+    }
+  };
+}
@@ -0,0 +1,73 @@
+// Server-only helper for minting short-lived Realtime API client secrets.
+// The long-lived OPENAI_API_KEY stays on the server; browsers only ever see
+// the ephemeral secret, which expires about a minute after it is issued.
+
+import { REALTIME_MODEL } from '../prompts/registry';
+
+export const DEFAULT_REALTIME_MODEL = REALTIME_MODEL;
+
+const SESSIONS_URL = 'https://api.openai.com/v1/realtime/sessions';
+
+// Session fields the sessions endpoint accepts; anything else in a client
+// supplied config is dropped rather than forwarded upstream.
+const SESSION_FIELDS = [
+  'modalities',
+  'instructions',
+  'voice',
+  'input_audio_format',
+  'output_audio_format',
+  'input_audio_transcription',
+  'turn_detection',
+  'tools',
+  'tool_choice',
+  'temperature',
+  'max_response_output_tokens',
+] as const;
+
+export interface EphemeralSession {
+  clientSecret: string;
+  expiresAt: number;
+  model: string;
+  sessionId: string | null;
+}
+
+export async function createEphemeralSession(
+  config: Record<string, unknown> = {},
+  model: string = DEFAULT_REALTIME_MODEL
+): Promise<EphemeralSession> {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+
+  const session: Record<string, unknown> = { model };
+  for (const field of SESSION_FIELDS) {
+    if (config[field] !== undefined) {
+      session[field] = config[field];
+    }
+  }
+
+  const response = await fetch(SESSIONS_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(session)
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to create realtime session: ${response.status} ${error}`);
+  }
+
+  const data = await response.json();
+
+  return {
+    clientSecret: data.client_secret.value,
+    expiresAt: data.client_secret.expires_at,
+    model: data.model || model,
+    sessionId: data.id || null
+  };
+}
@@ -0,0 +1,109 @@
+import { PlaybackPosition } from '../utils/audio';
+import { RealtimeSession } from './realtime-session';
+
+// What the controller needs from the local player (AudioPlayer fits)
+export interface PlaybackControl {
+  getPlaybackPosition(): PlaybackPosition | null;
+  getPlaybackState(): boolean;
+  stop(): void;
+}
+
+export interface Interruption {
+  itemId: string;
+  // Audio of the item the user actually heard; the rest is truncated
+  audioEndMs: number;
+}
+
+/**
+ * Handles the user cutting CASEY off: stops local playback, cancels the
+ * response if it is still generating, and truncates the assistant item to
+ * what was heard so the model doesn't remember saying the rest.
+ *
+ * Only local playback needs this. WebRTC plays audio through the peer
+ * connection, and the server truncates those items itself.
+ */
+export class InterruptionController {
+  private responseActive = false;
+  // content_index of the audio part of each assistant item, by item id
+  private audioParts = new Map<string, number>();
+  // Items cut off by the user; late audio for them is dropped
+  private interrupted = new Set<string>();
+  private detach: () => void;
+
+  constructor(
+    private session: RealtimeSession,
+    private playback: () => PlaybackControl | null
+  ) {
+    const onResponseCreated = () => {
+      this.responseActive = true;
+    };
+    const onResponseDone = () => {
+      this.responseActive = false;
+    };
+    const onAudioDelta = ({ item_id, content_index }: { item_id: string; content_index: number }) => {
+      this.audioParts.set(item_id, content_index);
+    };
+    // Server VAD heard the user start talking over CASEY. The server has
+    // already cut its response off; a cancel on top would only come back as
+    // an error
+    const onSpeechStarted = () => {
+      if (this.playback()?.getPlaybackState()) {
+        this.interrupt(false);
+      }
+    };
+
+    session.on('response.created', onResponseCreated);
+    session.on('response.done', onResponseDone);
+    session.on('response.audio.delta', onAudioDelta);
+    session.on('input_audio_buffer.speech_started', onSpeechStarted);
+
+    this.detach = () => {
+      session.off('response.created', onResponseCreated);
+      session.off('response.done', onResponseDone);
+      session.off('response.audio.delta', onAudioDelta);
+      session.off('input_audio_buffer.speech_started', onSpeechStarted);
+    };
+  }
+
+  // False for audio of an item the user already interrupted
+  shouldPlay(itemId: string): boolean {
+    return !this.interrupted.has(itemId);
+  }
+
+  /**
+   * Stops CASEY now. Returns the truncation sent, or null when no local audio
+   * had been played (e.g. over WebRTC). cancel is for barge-ins the client
+   * starts itself, such as push to talk or "Stop Response".
+   */
+  interrupt(cancel: boolean = true): Interruption | null {
+    const player = this.playback();
+    // A finished item needs no truncation
+    const position = player?.getPlaybackState() ? player.getPlaybackPosition() : null;
+    player?.stop();
+
+    if (cancel && this.responseActive && this.session.getConnectionStatus()) {
+      this.session.cancelResponse();
+      this.responseActive = false;
+    }
+
+    if (!position?.itemId || this.interrupted.has(position.itemId)) {
+      return null;
+    }
+    const contentIndex = this.audioParts.get(position.itemId);
+    if (contentIndex === undefined) {
+      return null;
+    }
+
+    this.interrupted.add(position.itemId);
+    if (this.session.getConnectionStatus()) {
+      this.session.truncateConversationItem(position.itemId, contentIndex, position.ms);
+    }
+    return { itemId: position.itemId, audioEndMs: position.ms };
+  }
+
+  dispose(): void {
+    this.detach();
+    this.audioParts.clear();
+    this.interrupted.clear();
+  }
+}
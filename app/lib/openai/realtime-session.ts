@@ -0,0 +1,623 @@
+'use client';
+
+import { EventEmitter } from 'events';
+import {
+  AudioFormat,
+  ClientEvent,
+  ConversationItem,
+  DisconnectedEvent,
+  KnownServerEvent,
+  Modality,
+  RateLimitsUpdatedEvent,
+  ResponseCreateEvent,
+  ProtocolErrorEvent,
+  ResponseCreatedEvent,
+  ResponseDoneEvent,
+  ServerEventPayloads,
+  SessionConfig,
+  SessionCreatedEvent,
+  TransportType,
+  TypedServerEvent,
+  Voice
+} from '../types/realtime';
+import { parseServerEvent } from './server-events';
+import { RealtimeTool, ToolCall, ToolRegistry, ToolResult } from './tools';
+import { RealtimeTransport, TransportConfig, createTransport } from './transports';
+
+export interface ReconnectOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RealtimeSessionOptions {
+  transport: TransportConfig;
+  tools?: RealtimeTool[];
+  // Reconnect automatically after an unexpected drop (default on)
+  reconnect?: boolean | ReconnectOptions;
+  debug?: boolean;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+}
+
+// Server events forwarded whole, keyed by type
+type ForwardedServerEvents = {
+  [K in Exclude<keyof ServerEventPayloads, keyof UnwrappedServerEvents>]: (event: TypedServerEvent<K>) => void;
+};
+
+// Server events whose listeners receive the interesting field rather than
+// the envelope
+interface UnwrappedServerEvents {
+  // A server ErrorEvent, or whatever the transport failed with
+  'error': (error: unknown) => void;
+  'session.created': (session: SessionCreatedEvent) => void;
+  'session.updated': (session: SessionCreatedEvent) => void;
+  'conversation.created': (conversation: { id: string; object: string }) => void;
+  'conversation.item.created': (item: ConversationItem) => void;
+  'response.created': (response: ResponseCreatedEvent['response']) => void;
+  'response.done': (response: ResponseDoneEvent['response']) => void;
+  'response.output_item.added': (item: ConversationItem) => void;
+  'response.output_item.done': (item: ConversationItem) => void;
+  'rate_limits.updated': (rateLimits: RateLimitsUpdatedEvent['rate_limits']) => void;
+}
+
+/**
+ * Listener signature for every event a RealtimeSession emits: connection
+ * lifecycle, tool execution, and the server events by type. '*' receives
+ * every server event that passed validation; anything else goes to
+ * 'protocol_error' instead.
+ */
+export interface RealtimeSessionEvents extends ForwardedServerEvents, UnwrappedServerEvents {
+  'connected': () => void;
+  'disconnected': (info: DisconnectedEvent) => void;
+  'reconnecting': (info: ReconnectingEvent) => void;
+  'reconnected': () => void;
+  'tool.call': (call: ToolCall) => void;
+  'tool.result': (result: ToolResult) => void;
+  'protocol_error': (error: ProtocolErrorEvent) => void;
+  '*': (event: KnownServerEvent) => void;
+}
+
+export type RealtimeSessionEventName = keyof RealtimeSessionEvents;
+
+/**
+ * Transport-agnostic Realtime API session. Owns event dispatch and the client
+ * event helpers; the configured transport only moves JSON strings.
+ */
+export class RealtimeSession extends EventEmitter {
+  private transport: RealtimeTransport;
+  private debug: boolean;
+  private sessionId: string | null = null;
+  private conversationId: string | null = null;
+  private isConnected: boolean = false;
+  private reconnectEnabled: boolean;
+  private reconnectAttempts: number = 0;
+  private maxReconnectAttempts: number = 5;
+  private reconnectDelay: number = 1000;
+  private maxReconnectDelay: number = 30000;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // Incremented per connection so late callbacks from a torn-down transport are ignored
+  private connectionId: number = 0;
+  private closedByClient: boolean = false;
+  private sessionConfig: SessionConfig = {};
+  private pingInterval: NodeJS.Timeout | null = null;
+  private tools: ToolRegistry = new ToolRegistry();
+  private pendingToolCalls: Promise<ToolResult>[] = [];
+
+  constructor(options: RealtimeSessionOptions) {
+    super();
+    this.debug = options.debug || false;
+    this.transport = createTransport(options.transport, (...args) => this.log(...args));
+    options.tools?.forEach(tool => this.tools.register(tool));
+
+    this.reconnectEnabled = options.reconnect !== false;
+    if (typeof options.reconnect === 'object') {
+      this.maxReconnectAttempts = options.reconnect.maxAttempts ?? this.maxReconnectAttempts;
+      this.reconnectDelay = options.reconnect.baseDelayMs ?? this.reconnectDelay;
+      this.maxReconnectDelay = options.reconnect.maxDelayMs ?? this.maxReconnectDelay;
+    }
+  }
+
+  on<E extends RealtimeSessionEventName>(event: E, listener: RealtimeSessionEvents[E]): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends RealtimeSessionEventName>(event: E, listener: RealtimeSessionEvents[E]): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends RealtimeSessionEventName>(event: E, listener: RealtimeSessionEvents[E]): this {
+    return super.off(event, listener);
+  }
+
+  emit<E extends RealtimeSessionEventName>(event: E, ...args: Parameters<RealtimeSessionEvents[E]>): boolean {
+    return super.emit(event, ...args);
+  }
+
+  async connect(): Promise<void> {
+    this.closedByClient = false;
+    await this.open(false);
+  }
+
+  private async open(isReconnect: boolean): Promise<void> {
+    const connectionId = ++this.connectionId;
+    const current = () => connectionId === this.connectionId;
+
+    try {
+      await this.transport.connect({
+        onOpen: () => {
+          if (!current()) return;
+          this.log(`Connected over ${this.transport.type}`);
+          this.isConnected = true;
+          this.reconnectAttempts = 0;
+          this.startPingInterval();
+
+          if (isReconnect) {
+            // The new server-side session starts from defaults
+            if (Object.keys(this.sessionConfig).length > 0) {
+              this.updateSession(this.sessionConfig);
+            }
+            this.emit('reconnected');
+          } else {
+            this.emit('connected');
+          }
+        },
+        onMessage: (data) => {
+          if (!current()) return;
+          const result = parseServerEvent(data);
+          if (!result.ok) {
+            this.logError(`Protocol error (${result.error.reason}):`, result.error.problems.join('; '));
+            this.emit('protocol_error', result.error);
+            return;
+          }
+          this.handleServerEvent(result.event);
+        },
+        onError: (error) => {
+          if (!current()) return;
+          this.logError('Transport error:', error);
+          this.emit('error', error);
+        },
+        onClose: (info: DisconnectedEvent) => {
+          if (!current()) return;
+          const wasConnected = this.isConnected;
+          this.isConnected = false;
+          this.stopPingInterval();
+
+          if (wasConnected && !this.closedByClient && this.reconnectEnabled) {
+            this.log('Connection lost:', info.reason);
+            this.attemptReconnect();
+          } else {
+            this.emit('disconnected', info);
+          }
+        }
+      });
+    } catch (error) {
+      this.logError('Connection error:', error);
+      throw error;
+    }
+  }
+
+  private attemptReconnect(): void {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.logError(`Giving up after ${this.reconnectAttempts} reconnect attempts`);
+      this.transport.disconnect();
+      this.emit('disconnected', { code: 1006, reason: 'Reconnect attempts exhausted' });
+      return;
+    }
+
+    this.reconnectAttempts++;
+
+    // Exponential backoff with equal jitter so many clients dropped at once
+    // don't retry in lockstep
+    const ceiling = Math.min(this.maxReconnectDelay, this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1));
+    const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+
+    this.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms...`);
+    this.emit('reconnecting', { attempt: this.reconnectAttempts, maxAttempts: this.maxReconnectAttempts, delay });
+
+    // Release the old peer connection and microphone before building a new
+    // one; its late close callbacks are ignored from here on
+    this.connectionId++;
+    this.transport.disconnect();
+    this.pendingToolCalls = [];
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.closedByClient) {
+        return;
+      }
+      this.open(true).catch((error) => {
+        this.logError('Reconnection failed:', error);
+        if (!this.closedByClient) {
+          this.attemptReconnect();
+        }
+      });
+    }, delay);
+  }
+
+  private startPingInterval(): void {
+    this.pingInterval = setInterval(() => {
+      if (this.isConnected && this.transport.isOpen()) {
+        this.transport.send(JSON.stringify({ type: 'ping' }));
+      }
+    }, 30000);
+  }
+
+  private stopPingInterval(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+  }
+
+  updateSession(config: SessionConfig): void {
+    // Remember the effective config so it can be restored after a reconnect
+    this.sessionConfig = { ...this.sessionConfig, ...config };
+
+    // Advertise registered tools unless the caller manages tools itself
+    if (this.tools.size > 0 && config.tools === undefined) {
+      config = {
+        ...config,
+        tools: this.tools.definitions(),
+        tool_choice: config.tool_choice || 'auto'
+      };
+    }
+
+    this.sendEvent({
+      type: 'session.update',
+      session: config
+    });
+  }
+
+  registerTool<Args>(tool: RealtimeTool<Args>): void {
+    this.tools.register(tool);
+    if (this.isConnected) {
+      this.sendEvent({
+        type: 'session.update',
+        session: { tools: this.tools.definitions(), tool_choice: 'auto' }
+      });
+    }
+  }
+
+  unregisterTool(name: string): void {
+    this.tools.unregister(name);
+    if (this.isConnected) {
+      this.sendEvent({
+        type: 'session.update',
+        session: { tools: this.tools.definitions() }
+      });
+    }
+  }
+
+  private runToolCall(event: TypedServerEvent<'response.function_call_arguments.done'>): void {
+    const call = {
+      callId: event.call_id,
+      name: event.name,
+      arguments: event.arguments
+    };
+
+    this.log('Running tool:', call.name);
+    this.emit('tool.call', call);
+
+    const pending = this.tools.execute(call).then((result) => {
+      if (!result.ok) {
+        this.logError(`Tool ${result.name} failed:`, result.output);
+      }
+      this.emit('tool.result', result);
+      if (this.transport.isOpen()) {
+        this.createConversationItem({
+          type: 'function_call_output',
+          call_id: result.callId,
+          output: result.output
+        });
+      }
+      return result;
+    });
+
+    this.pendingToolCalls.push(pending);
+  }
+
+  // A response may contain several calls; the follow-up response is only
+  // requested once the current one is done and every output has been posted.
+  // The first call that asks for a custom follow-up shapes it.
+  private flushToolCalls(): void {
+    if (this.pendingToolCalls.length === 0) {
+      return;
+    }
+
+    const pending = this.pendingToolCalls;
+    this.pendingToolCalls = [];
+
+    Promise.all(pending).then((results) => {
+      if (!this.transport.isOpen()) {
+        return;
+      }
+      const followUp = results.find(result => result.followUp)?.followUp;
+      this.createResponse(followUp && {
+        modalities: followUp.modalities,
+        instructions: followUp.instructions
+          ? [this.sessionConfig.instructions, followUp.instructions].filter(Boolean).join('\n\n')
+          : undefined
+      });
+    });
+  }
+
+  sendEvent(event: ClientEvent): void {
+    if (!this.transport.isOpen()) {
+      this.logError('Transport is not connected');
+      throw new Error('Transport is not connected');
+    }
+    
+    this.log('Sending event:', event.type);
+    this.transport.send(JSON.stringify(event));
+  }
+
+  private handleServerEvent(event: KnownServerEvent): void {
+    this.log('Received event:', event.type);
+    this.emit('*', event);
+
+    switch (event.type) {
+      case 'error':
+        this.logError('Server error:', event.error);
+        this.emit('error', event.error);
+        break;
+        
+      case 'session.created':
+        this.sessionId = event.session?.id || null;
+        this.emit('session.created', event.session);
+        break;
+        
+      case 'session.updated':
+        this.emit('session.updated', event.session);
+        break;
+        
+      case 'conversation.created':
+        this.conversationId = event.conversation?.id || null;
+        this.emit('conversation.created', event.conversation);
+        break;
+        
+      case 'input_audio_buffer.committed':
+        this.emit('input_audio_buffer.committed', event);
+        break;
+        
+      case 'input_audio_buffer.cleared':
+        this.emit('input_audio_buffer.cleared', event);
+        break;
+        
+      case 'input_audio_buffer.speech_started':
+        this.emit('input_audio_buffer.speech_started', event);
+        break;
+        
+      case 'input_audio_buffer.speech_stopped':
+        this.emit('input_audio_buffer.speech_stopped', event);
+        break;
+        
+      case 'conversation.item.created':
+        this.emit('conversation.item.created', event.item);
+        break;
+        
+      case 'conversation.item.input_audio_transcription.completed':
+        this.emit('conversation.item.input_audio_transcription.completed', event);
+        break;
+        
+      case 'conversation.item.input_audio_transcription.failed':
+        this.emit('conversation.item.input_audio_transcription.failed', event);
+        break;
+        
+      case 'conversation.item.truncated':
+        this.emit('conversation.item.truncated', event);
+        break;
+        
+      case 'conversation.item.deleted':
+        this.emit('conversation.item.deleted', event);
+        break;
+        
+      case 'response.created':
+        this.emit('response.created', event.response);
+        break;
+        
+      case 'response.done':
+        this.emit('response.done', event.response);
+        this.flushToolCalls();
+        break;
+        
+      case 'response.output_item.added':
+        this.emit('response.output_item.added', event.item);
+        break;
+        
+      case 'response.output_item.done':
+        this.emit('response.output_item.done', event.item);
+        break;
+        
+      case 'response.content_part.added':
+        this.emit('response.content_part.added', event);
+        break;
+        
+      case 'response.content_part.done':
+        this.emit('response.content_part.done', event);
+        break;
+        
+      case 'response.text.delta':
+        this.emit('response.text.delta', event);
+        break;
+        
+      case 'response.text.done':
+        this.emit('response.text.done', event);
+        break;
+        
+      case 'response.audio_transcript.delta':
+        this.emit('response.audio_transcript.delta', event);
+        break;
+        
+      case 'response.audio_transcript.done':
+        this.emit('response.audio_transcript.done', event);
+        break;
+        
+      case 'response.audio.delta':
+        this.emit('response.audio.delta', event);
+        break;
+        
+      case 'response.audio.done':
+        this.emit('response.audio.done', event);
+        break;
+        
+      case 'response.function_call_arguments.delta':
+        this.emit('response.function_call_arguments.delta', event);
+        break;
+        
+      case 'response.function_call_arguments.done':
+        this.emit('response.function_call_arguments.done', event);
+        if (this.tools.has(event.name)) {
+          this.runToolCall(event);
+        }
+        break;
+        
+      case 'rate_limits.updated':
+        this.emit('rate_limits.updated', event.rate_limits);
+        break;
+        
+      default:
+        // Remaining known types are forwarded whole (see ForwardedServerEvents)
+        super.emit(event.type, event);
+    }
+  }
+
+  appendInputAudio(audioData: ArrayBuffer): void {
+    const base64Audio = this.arrayBufferToBase64(audioData);
+    this.sendEvent({
+      type: 'input_audio_buffer.append',
+      audio: base64Audio
+    });
+  }
+
+  commitInputAudio(): void {
+    this.sendEvent({
+      type: 'input_audio_buffer.commit'
+    });
+  }
+
+  clearInputAudio(): void {
+    this.sendEvent({
+      type: 'input_audio_buffer.clear'
+    });
+  }
+
+  createConversationItem(item: ConversationItem, previousItemId?: string | null): void {
+    this.sendEvent({
+      type: 'conversation.item.create',
+      previous_item_id: previousItemId,
+      item
+    });
+  }
+
+  truncateConversationItem(itemId: string, contentIndex: number, audioEndMs: number): void {
+    this.sendEvent({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: contentIndex,
+      audio_end_ms: audioEndMs
+    });
+  }
+
+  deleteConversationItem(itemId: string): void {
+    this.sendEvent({
+      type: 'conversation.item.delete',
+      item_id: itemId
+    });
+  }
+
+  createResponse(options?: {
+    commit?: boolean;
+    cancelPrevious?: boolean;
+    append?: boolean;
+    modalities?: Modality[];
+    instructions?: string;
+    voice?: Voice;
+    outputAudioFormat?: AudioFormat;
+    temperature?: number;
+    maxOutputTokens?: number | 'inf';
+  }): void {
+    const event: ResponseCreateEvent = {
+      type: 'response.create',
+      commit: options?.commit,
+      cancel_previous: options?.cancelPrevious,
+      append: options?.append
+    };
+
+    if (options?.modalities || options?.instructions || options?.voice || 
+        options?.outputAudioFormat || options?.temperature || options?.maxOutputTokens) {
+      event.response = {
+        modalities: options.modalities,
+        instructions: options.instructions,
+        voice: options.voice,
+        output_audio_format: options.outputAudioFormat,
+        temperature: options.temperature,
+        max_output_tokens: options.maxOutputTokens
+      };
+    }
+
+    this.sendEvent(event);
+  }
+
+  cancelResponse(): void {
+    this.sendEvent({
+      type: 'response.cancel'
+    });
+  }
+
+  private arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  disconnect(): void {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.stopPingInterval();
+    this.transport.disconnect();
+    this.isConnected = false;
+  }
+
+  // Mutes or unmutes a microphone media track (WebRTC); other transports
+  // only send the audio they are given, so this is a no-op for them
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.transport.setMicrophoneEnabled?.(enabled);
+  }
+
+  getConnectionStatus(): boolean {
+    return this.isConnected;
+  }
+
+  getTransportType(): TransportType {
+    return this.transport.type;
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getConversationId(): string | null {
+    return this.conversationId;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.log('[RealtimeSession]', ...args);
+    }
+  }
+
+  private logError(...args: unknown[]): void {
+    console.error('[RealtimeSession]', ...args);
+  }
+}
\ No newline at end of file
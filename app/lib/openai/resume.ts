@@ -0,0 +1,94 @@
+import { StoredConversationItem } from '../storage/types';
+import { ConversationItem } from '../types/realtime';
+import { getItemText } from '../utils/transcript';
+
+export type ResumeMode = 'off' | 'replay' | 'summary';
+
+export interface ResumeOptions {
+  // Most recent turns replayed verbatim; older turns are folded into a summary
+  maxReplayItems?: number;
+  // Upper bound on the summary text so a long history can't crowd the context
+  maxSummaryChars?: number;
+}
+
+const DEFAULT_MAX_REPLAY_ITEMS = 20;
+const DEFAULT_MAX_SUMMARY_CHARS = 4000;
+
+// Realtime item ids are limited to 32 characters
+function resumeItemId(index: number): string {
+  return `resume_${Date.now().toString(36)}_${index}`;
+}
+
+function textTurns(items: StoredConversationItem[]) {
+  return items
+    .filter(item => item.type === 'message' && (item.role === 'user' || item.role === 'assistant'))
+    .map(item => ({ role: item.role as 'user' | 'assistant', text: getItemText(item).trim() }))
+    .filter(turn => turn.text.length > 0);
+}
+
+function summarize(turns: ReturnType<typeof textTurns>, maxChars: number): string {
+  const lines: string[] = [];
+  let length = 0;
+
+  // Walk backwards so the most recent context survives truncation
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = `${turns[i].role === 'user' ? 'Student' : 'CASEY'}: ${turns[i].text}`;
+    if (length + line.length > maxChars) {
+      lines.unshift('…');
+      break;
+    }
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+
+  return [
+    'This coaching conversation is being resumed after a dropped connection.',
+    'Continue naturally from where it left off without re-introducing yourself.',
+    'Earlier in the conversation:',
+    ...lines
+  ].join('\n');
+}
+
+/**
+ * Turns stored history into conversation.item.create payloads for a fresh
+ * session. "replay" re-creates recent turns as text items (older turns become
+ * a summary); "summary" sends a single compact system item.
+ */
+export function buildResumeItems(
+  items: StoredConversationItem[],
+  mode: ResumeMode,
+  options: ResumeOptions = {}
+): ConversationItem[] {
+  const turns = textTurns(items);
+  if (mode === 'off' || turns.length === 0) {
+    return [];
+  }
+
+  const maxReplay = options.maxReplayItems ?? DEFAULT_MAX_REPLAY_ITEMS;
+  const maxChars = options.maxSummaryChars ?? DEFAULT_MAX_SUMMARY_CHARS;
+
+  const summarized = mode === 'summary' ? turns : turns.slice(0, Math.max(0, turns.length - maxReplay));
+  const replayed = mode === 'summary' ? [] : turns.slice(summarized.length);
+
+  const seed: ConversationItem[] = [];
+
+  if (summarized.length > 0) {
+    seed.push({
+      id: resumeItemId(0),
+      type: 'message',
+      role: 'system',
+      content: [{ type: 'input_text', text: summarize(summarized, maxChars) }]
+    });
+  }
+
+  replayed.forEach((turn, index) => {
+    seed.push({
+      id: resumeItemId(index + 1),
+      type: 'message',
+      role: turn.role,
+      content: [{ type: turn.role === 'user' ? 'input_text' : 'text', text: turn.text }]
+    });
+  });
+
+  return seed;
+}
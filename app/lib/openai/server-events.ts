@@ -0,0 +1,162 @@
+import {
+  KnownServerEvent,
+  ProtocolErrorEvent,
+  ServerEventType
+} from '../types/realtime';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+
+// Schemas mirror the payload interfaces in types/realtime.ts. They require
+// the fields the client reads and leave everything else open, so additive
+// upstream changes pass while renamed or retyped fields are caught.
+
+const string: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+const nullableString: JsonSchema = { type: ['string', 'null'] };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+const errorDetails = object({
+  type: string,
+  code: nullableString,
+  message: string,
+  param: nullableString,
+  event_id: nullableString
+}, ['type', 'message']);
+
+const contentPart = object({
+  type: { type: 'string', enum: ['input_text', 'input_audio', 'text', 'audio'] },
+  text: string,
+  audio: string,
+  transcript: nullableString
+}, ['type']);
+
+const item = object({
+  id: string,
+  type: { type: 'string', enum: ['message', 'function_call', 'function_call_output'] },
+  role: { type: 'string', enum: ['user', 'assistant', 'system'] },
+  status: { type: 'string', enum: ['completed', 'in_progress', 'incomplete'] },
+  content: { type: 'array', items: contentPart },
+  call_id: string,
+  name: string,
+  arguments: string,
+  output: string
+}, ['id', 'type']);
+
+const session = object({
+  id: string,
+  model: string,
+  modalities: { type: 'array', items: string },
+  instructions: string,
+  voice: string
+}, ['id']);
+
+const response = object({
+  id: string,
+  status: string,
+  output: { type: 'array', items: item },
+  usage: {
+    type: ['object', 'null'],
+    properties: { total_tokens: number, input_tokens: number, output_tokens: number }
+  }
+}, ['id', 'status']);
+
+const contentRef = {
+  item_id: string,
+  output_index: number,
+  content_index: number
+};
+
+const outputItem = object({ response_id: string, output_index: number, item });
+
+const contentPartEvent = object({ response_id: string, ...contentRef, part: contentPart });
+
+const functionCallArguments = {
+  response_id: string,
+  item_id: string,
+  output_index: number,
+  call_id: string
+};
+
+const outputAudioBuffer = object({ response_id: string });
+
+export const SERVER_EVENT_SCHEMAS: Record<ServerEventType, JsonSchema> = {
+  'error': object({ error: errorDetails }),
+  'session.created': object({ session }),
+  'session.updated': object({ session }),
+  'conversation.created': object({ conversation: object({ id: string, object: string }, ['id']) }),
+  'input_audio_buffer.committed': object({ previous_item_id: nullableString, item_id: string }, ['item_id']),
+  'input_audio_buffer.cleared': object({}),
+  'input_audio_buffer.speech_started': object({ audio_start_ms: number, item_id: string }),
+  'input_audio_buffer.speech_stopped': object({ audio_end_ms: number, item_id: string }),
+  'conversation.item.created': object({ previous_item_id: nullableString, item }, ['item']),
+  'conversation.item.input_audio_transcription.delta': object({ item_id: string, content_index: number, delta: string }, ['item_id', 'delta']),
+  'conversation.item.input_audio_transcription.completed': object({ item_id: string, content_index: number, transcript: string }),
+  'conversation.item.input_audio_transcription.failed': object({ item_id: string, content_index: number, error: errorDetails }, ['item_id', 'error']),
+  'conversation.item.truncated': object({ item_id: string, content_index: number, audio_end_ms: number }),
+  'conversation.item.deleted': object({ item_id: string }),
+  'response.created': object({ response }),
+  'response.done': object({ response }),
+  'response.output_item.added': outputItem,
+  'response.output_item.done': outputItem,
+  'response.content_part.added': contentPartEvent,
+  'response.content_part.done': contentPartEvent,
+  'response.text.delta': object({ response_id: string, ...contentRef, delta: string }),
+  'response.text.done': object({ response_id: string, ...contentRef, text: string }),
+  'response.audio_transcript.delta': object({ ...contentRef, delta: string }),
+  'response.audio_transcript.done': object({ ...contentRef, transcript: string }),
+  'response.audio.delta': object({ ...contentRef, delta: string }),
+  'response.audio.done': object(contentRef),
+  'response.function_call_arguments.delta': object({ ...functionCallArguments, delta: string }),
+  'response.function_call_arguments.done': object({ ...functionCallArguments, name: string, arguments: string }),
+  'output_audio_buffer.started': outputAudioBuffer,
+  'output_audio_buffer.stopped': outputAudioBuffer,
+  'output_audio_buffer.cleared': outputAudioBuffer,
+  'rate_limits.updated': object({
+    rate_limits: {
+      type: 'array',
+      items: object({ name: string, limit: number, remaining: number, reset_seconds: number })
+    }
+  })
+};
+
+export type ServerEventValidation =
+  | { ok: true; event: KnownServerEvent }
+  | { ok: false; error: ProtocolErrorEvent };
+
+function isKnownType(type: string): type is ServerEventType {
+  return Object.prototype.hasOwnProperty.call(SERVER_EVENT_SCHEMAS, type);
+}
+
+/**
+ * Parses and checks one message from the transport. Anything that isn't a
+ * known, well-formed server event comes back as a protocol error carrying the
+ * raw payload.
+ */
+export function parseServerEvent(data: string): ServerEventValidation {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    return { ok: false, error: { reason: 'unparseable', problems: [message], raw: data } };
+  }
+
+  const envelope = validateJsonSchema(object({ type: string }, ['type']), raw);
+  if (envelope.length > 0) {
+    return { ok: false, error: { reason: 'invalid_payload', problems: envelope, raw } };
+  }
+
+  const type = (raw as { type: string }).type;
+  if (!isKnownType(type)) {
+    return { ok: false, error: { reason: 'unknown_type', problems: [`Unknown event type: ${type}`], raw } };
+  }
+
+  const problems = validateJsonSchema(SERVER_EVENT_SCHEMAS[type], raw);
+  if (problems.length > 0) {
+    return { ok: false, error: { reason: 'invalid_payload', problems, raw } };
+  }
+
+  return { ok: true, event: raw as KnownServerEvent };
+}
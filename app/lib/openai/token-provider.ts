@@ -0,0 +1,71 @@
+import type { SessionConfig } from '../types/realtime';
+
+export interface EphemeralToken {
+  value: string;
+  // Unix timestamp (seconds) after which the token is rejected
+  expiresAt: number;
+  model?: string;
+}
+
+export type TokenProvider = () => Promise<EphemeralToken>;
+
+export interface TokenProviderOptions {
+  endpoint?: string;
+  config?: SessionConfig;
+}
+
+/**
+ * Returns a provider that asks our server to mint a fresh ephemeral client
+ * secret on every call. Callers decide when a cached token is stale.
+ */
+export function createTokenProvider(options: TokenProviderOptions = {}): TokenProvider {
+  const endpoint = options.endpoint || '/api/realtime';
+
+  return async () => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config: options.config || {} })
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch realtime session token');
+    }
+
+    const data = await response.json();
+
+    return {
+      value: data.clientSecret,
+      expiresAt: data.expiresAt,
+      model: data.model
+    };
+  };
+}
+
+export function isTokenExpired(token: EphemeralToken | null, marginMs: number = 5000): boolean {
+  if (!token) {
+    return true;
+  }
+  return token.expiresAt * 1000 - marginMs <= Date.now();
+}
+
+/**
+ * Holds the most recent token from a provider and only asks for a new one
+ * once it is about to expire or has been rejected.
+ */
+export class TokenCache {
+  private token: EphemeralToken | null = null;
+
+  constructor(private provider: TokenProvider) {}
+
+  async get(): Promise<EphemeralToken> {
+    if (isTokenExpired(this.token)) {
+      this.token = await this.provider();
+    }
+    return this.token!;
+  }
+
+  invalidate(): void {
+    this.token = null;
+  }
+}
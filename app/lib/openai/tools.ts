@@ -0,0 +1,109 @@
+import { Modality, ToolDefinition } from '../types/realtime';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+
+export interface ToolCall {
+  callId: string;
+  name: string;
+  arguments: string;
+}
+
+// Shapes the response the session requests after a tool call, e.g. a
+// text-only response. Instructions are added to the session's own.
+export interface ToolFollowUp {
+  modalities?: Modality[];
+  instructions?: string;
+}
+
+export interface RealtimeTool<Args = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  // Method syntax so tools with specific argument types fit in RealtimeTool[]
+  handler(args: Args, call: ToolCall): unknown | Promise<unknown>;
+  // Called after a successful handler; omit for a regular follow-up
+  followUp?(args: Args): ToolFollowUp | undefined;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  ok: boolean;
+  output: string;
+  followUp?: ToolFollowUp;
+}
+
+/**
+ * Client-side functions the model may call. Definitions are advertised in
+ * session.update; calls are validated against the declared schema before the
+ * handler runs, and every outcome (including failures) becomes a
+ * function_call_output string the model can read.
+ */
+export class ToolRegistry {
+  private tools: Map<string, RealtimeTool> = new Map();
+
+  register<Args>(tool: RealtimeTool<Args>): void {
+    this.tools.set(tool.name, tool as unknown as RealtimeTool);
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters as Record<string, unknown>
+    }));
+  }
+
+  async execute(call: ToolCall): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return this.failure(call, `Unknown tool: ${call.name}`);
+    }
+
+    let args: unknown;
+    try {
+      args = call.arguments ? JSON.parse(call.arguments) : {};
+    } catch {
+      return this.failure(call, 'Arguments are not valid JSON');
+    }
+
+    const problems = validateJsonSchema(tool.parameters, args);
+    if (problems.length > 0) {
+      return this.failure(call, 'Invalid arguments', problems);
+    }
+
+    try {
+      const result = await tool.handler(args as Record<string, unknown>, call);
+      return {
+        callId: call.callId,
+        name: call.name,
+        ok: true,
+        output: typeof result === 'string' ? result : JSON.stringify(result ?? { success: true }),
+        followUp: tool.followUp?.(args as Record<string, unknown>)
+      };
+    } catch (error) {
+      return this.failure(call, error instanceof Error ? error.message : 'Tool failed');
+    }
+  }
+
+  private failure(call: ToolCall, error: string, details?: string[]): ToolResult {
+    return {
+      callId: call.callId,
+      name: call.name,
+      ok: false,
+      output: JSON.stringify(details ? { error, details } : { error })
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { TransportType } from '../../types/realtime';
+import { TokenProvider } from '../token-provider';
+import { RealtimeTransport, TransportConfig, TransportLogger } from './types';
+import { WebRTCTransport } from './webrtc-transport';
+import { ProxyTransport, WebSocketTransport } from './websocket-transport';
+
+export * from './types';
+export { WebRTCTransport } from './webrtc-transport';
+export { ProxyTransport, WebSocketTransport } from './websocket-transport';
+
+export function createTransport(config: TransportConfig, log: TransportLogger): RealtimeTransport {
+  switch (config.type) {
+    case 'webrtc':
+      return new WebRTCTransport(config, log);
+    case 'websocket':
+      return new WebSocketTransport(config, log);
+    case 'proxy':
+      return new ProxyTransport(config, log);
+  }
+}
+
+// Transport used when nothing else is configured; NEXT_PUBLIC_REALTIME_TRANSPORT
+// switches every session in the app without code changes.
+export const DEFAULT_TRANSPORT: TransportType =
+  (process.env.NEXT_PUBLIC_REALTIME_TRANSPORT as TransportType | undefined) || 'webrtc';
+
+export interface TransportOptions {
+  model?: string;
+  // WebRTC only; the WebSocket transports never capture audio themselves
+  microphone?: boolean;
+}
+
+export function transportConfigFor(
+  type: TransportType,
+  tokenProvider: TokenProvider,
+  { model, microphone }: TransportOptions = {}
+): TransportConfig {
+  if (type === 'proxy') {
+    return { type };
+  }
+  if (type === 'webrtc') {
+    return { type, tokenProvider, model, microphone };
+  }
+  return { type, tokenProvider, model };
+}
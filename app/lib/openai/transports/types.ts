@@ -0,0 +1,52 @@
+import { DisconnectedEvent, TransportType } from '../../types/realtime';
+import { TokenProvider } from '../token-provider';
+
+export interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: (info: DisconnectedEvent) => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Moves raw JSON event strings between a RealtimeSession and the Realtime API.
+ * Transports know nothing about the protocol itself.
+ */
+export interface RealtimeTransport {
+  readonly type: TransportType;
+  connect(handlers: TransportHandlers): Promise<void>;
+  send(data: string): void;
+  isOpen(): boolean;
+  disconnect(): void;
+  // Transports that send the microphone as a media track can mute it; the
+  // setting carries over to the track of a reconnect
+  setMicrophoneEnabled?(enabled: boolean): void;
+}
+
+export interface WebRTCTransportConfig {
+  type: 'webrtc';
+  tokenProvider: TokenProvider;
+  model?: string;
+  // Send the microphone as a media track (default true). Without it the
+  // connection only receives audio and never asks for mic permission.
+  microphone?: boolean;
+}
+
+export interface WebSocketTransportConfig {
+  type: 'websocket';
+  tokenProvider: TokenProvider;
+  model?: string;
+}
+
+export interface ProxyTransportConfig {
+  type: 'proxy';
+  // Defaults to /api/realtime/ws on the current host
+  url?: string;
+}
+
+export type TransportConfig =
+  | WebRTCTransportConfig
+  | WebSocketTransportConfig
+  | ProxyTransportConfig;
+
+export type TransportLogger = (...args: unknown[]) => void;
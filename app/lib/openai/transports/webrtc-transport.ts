@@ -0,0 +1,227 @@
+'use client';
+
+import { DEFAULT_REALTIME_MODEL } from '../ephemeral-session';
+import { TokenCache } from '../token-provider';
+import { RealtimeTransport, TransportHandlers, TransportLogger, WebRTCTransportConfig } from './types';
+
+/**
+ * Peer connection to the Realtime API. Microphone audio goes out as a media
+ * track and model audio plays through an <audio> element, so audio never
+ * passes through the event channel.
+ */
+export class WebRTCTransport implements RealtimeTransport {
+  readonly type = 'webrtc' as const;
+  private pc: RTCPeerConnection | null = null;
+  private dc: RTCDataChannel | null = null;
+  private audioElement: HTMLAudioElement | null = null;
+  private localStream: MediaStream | null = null;
+  private tokens: TokenCache;
+  private model: string;
+  private microphone: boolean;
+  private microphoneEnabled = true;
+
+  constructor(config: WebRTCTransportConfig, private log: TransportLogger) {
+    this.tokens = new TokenCache(config.tokenProvider);
+    this.model = config.model || DEFAULT_REALTIME_MODEL;
+    this.microphone = config.microphone !== false;
+  }
+
+  async connect(handlers: TransportHandlers): Promise<void> {
+    return new Promise(async (resolve, reject) => {
+      let opened = false;
+      let closed = false;
+
+      // Before the channel opens, a failure tears down the peer connection
+      // and microphone and rejects connect(); nothing else will clean them up
+      const fail = (error: unknown) => {
+        if (closed) return;
+        closed = true;
+        this.disconnect();
+        reject(error);
+      };
+
+      // The data channel and the peer connection can both report the same
+      // failure; surface it once
+      const close = (reason: string, code: number) => {
+        if (!opened) {
+          fail(new Error(reason));
+          return;
+        }
+        if (closed) return;
+        closed = true;
+        handlers.onClose({ code, reason });
+      };
+
+      try {
+        // Create RTCPeerConnection
+        this.pc = new RTCPeerConnection({
+          iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
+        });
+
+        const pc = this.pc;
+        pc.addEventListener('connectionstatechange', () => {
+          this.log('Peer connection state:', pc.connectionState);
+          if (pc.connectionState === 'failed') {
+            close('Peer connection failed', 1006);
+          }
+        });
+
+        pc.addEventListener('iceconnectionstatechange', () => {
+          if (pc.iceConnectionState === 'failed') {
+            close('ICE connection failed', 1006);
+          }
+        });
+
+        // Set up audio element to play remote audio
+        this.audioElement = document.createElement('audio');
+        this.audioElement.autoplay = true;
+
+        this.pc.ontrack = (e) => {
+          this.log('Received remote track:', e.track.kind);
+          if (this.audioElement && e.streams[0]) {
+            this.audioElement.srcObject = e.streams[0];
+          }
+        };
+
+        // Add local audio track for microphone input, or just receive audio
+        // for text-only use
+        if (!this.microphone) {
+          this.pc.addTransceiver('audio', { direction: 'recvonly' });
+        } else {
+          try {
+            const ms = await navigator.mediaDevices.getUserMedia({
+              audio: {
+                echoCancellation: true,
+                noiseSuppression: true,
+                autoGainControl: true,
+              }
+            });
+            this.localStream = ms;
+
+            ms.getTracks().forEach(track => {
+              this.log('Adding local track:', track.kind);
+              track.enabled = this.microphoneEnabled;
+              this.pc!.addTrack(track, ms);
+            });
+          } catch (err) {
+            this.log('Failed to get user media:', err);
+            fail(new Error('Failed to access microphone'));
+            return;
+          }
+        }
+
+        // Create data channel for events
+        this.dc = this.pc.createDataChannel('oai-events', {
+          ordered: true
+        });
+
+        this.dc.addEventListener('open', () => {
+          this.log('Data channel opened');
+          opened = true;
+          handlers.onOpen();
+          resolve();
+        });
+
+        this.dc.addEventListener('message', (event) => {
+          handlers.onMessage(event.data);
+        });
+
+        this.dc.addEventListener('error', (error) => {
+          if (!opened) {
+            fail(error);
+            return;
+          }
+          handlers.onError(error);
+        });
+
+        this.dc.addEventListener('close', () => {
+          this.log('Data channel closed');
+          close('Data channel closed', 1000);
+        });
+
+        // Create offer and connect via WebRTC
+        const offer = await this.pc.createOffer();
+        await this.pc.setLocalDescription(offer);
+
+        // Send SDP to OpenAI, retrying once with a fresh token if the
+        // cached one was rejected
+        let sdpResponse = await this.postOffer(offer.sdp!);
+        if (sdpResponse.status === 401) {
+          this.log('Session token rejected, refreshing');
+          this.tokens.invalidate();
+          sdpResponse = await this.postOffer(offer.sdp!);
+        }
+
+        if (!sdpResponse.ok) {
+          const error = await sdpResponse.text();
+          this.log('SDP response error:', sdpResponse.status, error);
+          throw new Error(`Failed to establish WebRTC connection: ${sdpResponse.status}`);
+        }
+
+        const answer = {
+          type: 'answer' as RTCSdpType,
+          sdp: await sdpResponse.text(),
+        };
+
+        await this.pc.setRemoteDescription(answer);
+        this.log('WebRTC connection established');
+
+      } catch (error) {
+        fail(error);
+      }
+    });
+  }
+
+  private async postOffer(sdp: string): Promise<Response> {
+    const token = await this.tokens.get();
+    const baseUrl = 'https://api.openai.com/v1/realtime';
+    return fetch(`${baseUrl}?model=${token.model || this.model}`, {
+      method: 'POST',
+      body: sdp,
+      headers: {
+        'Authorization': `Bearer ${token.value}`,
+        'Content-Type': 'application/sdp'
+      },
+    });
+  }
+
+  // A disabled track sends silence, so nothing the student says reaches the model
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+    this.localStream?.getAudioTracks().forEach(track => {
+      track.enabled = enabled;
+    });
+  }
+
+  send(data: string): void {
+    this.dc!.send(data);
+  }
+
+  isOpen(): boolean {
+    return this.dc?.readyState === 'open';
+  }
+
+  disconnect(): void {
+    if (this.dc) {
+      this.dc.close();
+      this.dc = null;
+    }
+
+    if (this.pc) {
+      this.pc.close();
+      this.pc = null;
+    }
+
+    // Release the microphone so a reconnect doesn't stack up capture tracks
+    if (this.localStream) {
+      this.localStream.getTracks().forEach(track => track.stop());
+      this.localStream = null;
+    }
+
+    if (this.audioElement) {
+      this.audioElement.pause();
+      this.audioElement.srcObject = null;
+      this.audioElement = null;
+    }
+  }
+}
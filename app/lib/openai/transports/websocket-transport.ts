@@ -0,0 +1,117 @@
+'use client';
+
+import { TransportType } from '../../types/realtime';
+import { DEFAULT_REALTIME_MODEL } from '../ephemeral-session';
+import { TokenCache } from '../token-provider';
+import {
+  ProxyTransportConfig,
+  RealtimeTransport,
+  TransportHandlers,
+  TransportLogger,
+  WebSocketTransportConfig
+} from './types';
+
+abstract class SocketTransport implements RealtimeTransport {
+  abstract readonly type: TransportType;
+  protected ws: WebSocket | null = null;
+
+  constructor(protected log: TransportLogger) {}
+
+  protected abstract resolveEndpoint(): Promise<{ url: string; protocols?: string[] }>;
+
+  async connect(handlers: TransportHandlers): Promise<void> {
+    const { url, protocols } = await this.resolveEndpoint();
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+
+      this.log('Connecting to:', url);
+      this.ws = new WebSocket(url, protocols);
+
+      this.ws.onopen = () => {
+        opened = true;
+        handlers.onOpen();
+        resolve();
+      };
+
+      this.ws.onmessage = (event) => {
+        handlers.onMessage(event.data);
+      };
+
+      this.ws.onerror = (error) => {
+        handlers.onError(error);
+        if (!opened) {
+          reject(error);
+        }
+      };
+
+      this.ws.onclose = (event) => {
+        this.log('WebSocket closed:', event.code, event.reason);
+        handlers.onClose({ code: event.code, reason: event.reason });
+      };
+    });
+  }
+
+  send(data: string): void {
+    this.ws!.send(data);
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  disconnect(): void {
+    if (this.ws) {
+      this.ws.close(1000, 'Client disconnect');
+      this.ws = null;
+    }
+  }
+}
+
+/**
+ * Direct browser WebSocket to the Realtime API. Browsers cannot set headers on
+ * a WebSocket, so the ephemeral token travels as a subprotocol.
+ */
+export class WebSocketTransport extends SocketTransport {
+  readonly type = 'websocket' as const;
+  private tokens: TokenCache;
+  private model: string;
+
+  constructor(config: WebSocketTransportConfig, log: TransportLogger) {
+    super(log);
+    this.tokens = new TokenCache(config.tokenProvider);
+    this.model = config.model || DEFAULT_REALTIME_MODEL;
+  }
+
+  protected async resolveEndpoint() {
+    const token = await this.tokens.get();
+    return {
+      url: `wss://api.openai.com/v1/realtime?model=${token.model || this.model}`,
+      protocols: [
+        'realtime',
+        `openai-insecure-api-key.${token.value}`,
+        'openai-beta.realtime-v1'
+      ]
+    };
+  }
+}
+
+/**
+ * WebSocket to our own /api/realtime/ws proxy (server.js), which holds the API
+ * key and forwards events both ways.
+ */
+export class ProxyTransport extends SocketTransport {
+  readonly type = 'proxy' as const;
+
+  constructor(private config: ProxyTransportConfig, log: TransportLogger) {
+    super(log);
+  }
+
+  protected async resolveEndpoint() {
+    if (this.config.url) {
+      return { url: this.config.url };
+    }
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    return { url: `${protocol}//${window.location.host}/api/realtime/ws` };
+  }
+}
@@ -0,0 +1,106 @@
+import { TurnDetectionConfig } from '../types/realtime';
+import vadPresets from './vad-presets.json';
+
+// Preset values live in vad-presets.json so the WebSocket proxy (server.js)
+// starts sessions with the same defaults as the app.
+
+// 'server_vad' lets the server decide when the student has finished;
+// 'push_to_talk' leaves turns to the client, which commits on release
+export type TurnMode = 'server_vad' | 'push_to_talk';
+
+export const DEFAULT_TURN_MODE: TurnMode = 'server_vad';
+
+export type VadPreset = keyof typeof vadPresets.presets;
+
+// The tunable part of a server_vad config
+export type VadSettings = Required<Omit<TurnDetectionConfig, 'type' | 'create_response'>>;
+
+export interface VadPresetInfo {
+  label: string;
+  description: string;
+  vad: VadSettings;
+}
+
+export const VAD_PRESETS = Object.fromEntries(
+  Object.entries(vadPresets.presets).map(([id, { label, description, ...vad }]) => [id, { label, description, vad }])
+) as Record<VadPreset, VadPresetInfo>;
+
+export const DEFAULT_VAD_PRESET = vadPresets.defaultPreset as VadPreset;
+
+export const DEFAULT_VAD: VadSettings = VAD_PRESETS[DEFAULT_VAD_PRESET].vad;
+
+export const DEFAULT_SERVER_VAD: TurnDetectionConfig = { type: 'server_vad', ...DEFAULT_VAD };
+
+// Ranges offered in the advanced settings and accepted by /api/voice-settings
+export const VAD_LIMITS: Record<keyof VadSettings, { min: number; max: number; step: number }> = {
+  threshold: { min: 0.1, max: 0.95, step: 0.05 },
+  prefix_padding_ms: { min: 0, max: 1000, step: 50 },
+  silence_duration_ms: { min: 200, max: 2000, step: 100 }
+};
+
+// Push-to-talk turns shorter than this are dropped; the server rejects
+// commits with under 100 ms of audio
+export const MIN_PUSH_TO_TALK_MS = 200;
+
+// autoRespond false keeps server VAD from answering each turn, for pages
+// that decide when CASEY speaks (e.g. the interview's next-question button)
+export function turnDetectionFor(
+  mode: TurnMode,
+  vad: VadSettings = DEFAULT_VAD,
+  autoRespond: boolean = true
+): TurnDetectionConfig | null {
+  if (mode === 'push_to_talk') {
+    return null;
+  }
+  return autoRespond ? { type: 'server_vad', ...vad } : { type: 'server_vad', ...vad, create_response: false };
+}
+
+export function isVadPreset(value: unknown): value is VadPreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(VAD_PRESETS, value);
+}
+
+// The preset these settings came from, or 'custom' once tuned by hand
+export function matchVadPreset(vad: VadSettings): VadPreset | 'custom' {
+  const match = (Object.keys(VAD_PRESETS) as VadPreset[]).find(preset => {
+    const values = VAD_PRESETS[preset].vad;
+    return values.threshold === vad.threshold &&
+      values.prefix_padding_ms === vad.prefix_padding_ms &&
+      values.silence_duration_ms === vad.silence_duration_ms;
+  });
+  return match || 'custom';
+}
+
+export function isValidVad(value: unknown): value is VadSettings {
+  const vad = value as VadSettings;
+  return typeof vad === 'object' && vad !== null &&
+    (Object.keys(VAD_LIMITS) as (keyof VadSettings)[]).every(key =>
+      typeof vad[key] === 'number' && vad[key] >= VAD_LIMITS[key].min && vad[key] <= VAD_LIMITS[key].max
+    );
+}
+
+/**
+ * Threshold for the server VAD given the room's background noise in dBFS.
+ * A rule of thumb: a quiet room (about -60 dBFS) keeps the default
+ * sensitivity, and each 10 dB of extra noise raises the bar by about 0.1.
+ */
+export function suggestThreshold(noiseDb: number): number {
+  const { min, step } = VAD_LIMITS.threshold;
+  const rounded = Math.round((0.5 + (noiseDb + 60) * 0.01) / step) * step;
+  // Past 0.9 quiet speakers stop being heard at all
+  return Number(Math.min(0.9, Math.max(min, rounded)).toFixed(2));
+}
+
+// Extra audio the local gate sends around speech, beyond what server VAD needs
+const LOCAL_VAD_MARGIN_MS = 300;
+
+/**
+ * Local gate timings that keep server VAD working: enough audio before the
+ * onset for its prefix padding, and enough trailing silence for it to end
+ * the turn before the gate closes.
+ */
+export function localVadFor(vad: VadSettings): { prefixMs: number; hangoverMs: number } {
+  return {
+    prefixMs: vad.prefix_padding_ms + LOCAL_VAD_MARGIN_MS,
+    hangoverMs: vad.silence_duration_ms + LOCAL_VAD_MARGIN_MS
+  };
+}
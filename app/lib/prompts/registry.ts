@@ -0,0 +1,103 @@
+import registry from './registry.json';
+
+// Prompt text lives in registry.json so the WebSocket proxy (server.js, plain
+// Node) reads the same personas as the app. Edit prompts there, not inline.
+
+export type PromptMode = keyof typeof registry.modes;
+export type TemplateName = keyof typeof registry.templates;
+
+export type TemplateValue = string | number | string[] | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface Persona {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  instructions: string;
+}
+
+interface PersonaVersion {
+  version: number;
+  name: string;
+  description: string;
+  instructions: string[];
+}
+
+const PERSONAS: Record<string, PersonaVersion[]> = registry.personas;
+
+export const DEFAULT_PERSONA = registry.defaultPersona;
+export const REALTIME_MODEL = registry.model;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function formatValue(value: TemplateValue): string {
+  if (Array.isArray(value)) return value.join(', ');
+  return value == null ? '' : String(value);
+}
+
+/**
+ * Fills {{name}} placeholders. A line whose placeholders all come out empty
+ * is dropped, so optional details ("- Skills: {{skills}}") disappear instead
+ * of leaving a dangling label.
+ */
+export function renderTemplate(lines: string[], variables: TemplateVariables = {}): string {
+  return lines
+    .flatMap(line => {
+      const names = Array.from(line.matchAll(PLACEHOLDER), match => match[1]);
+      const values = names.map(name => formatValue(variables[name]));
+      if (names.length > 0 && values.every(value => !value)) {
+        return [];
+      }
+      return [line.replace(PLACEHOLDER, (_, name: string) => formatValue(variables[name]))];
+    })
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Resolves "casey" (latest version) or "casey@1" (pinned) to a persona.
+ */
+export function getPersona(ref: string = DEFAULT_PERSONA, variables: TemplateVariables = {}): Persona {
+  const [id, pinned] = ref.split('@');
+  const versions = PERSONAS[id];
+  if (!versions || versions.length === 0) {
+    throw new Error(`Unknown persona: ${ref}`);
+  }
+
+  const entry = pinned
+    ? versions.find(version => String(version.version) === pinned)
+    : versions.reduce((latest, version) => version.version > latest.version ? version : latest);
+  if (!entry) {
+    throw new Error(`Unknown persona version: ${ref}`);
+  }
+
+  return {
+    id,
+    version: entry.version,
+    name: entry.name,
+    description: entry.description,
+    instructions: renderTemplate(entry.instructions, { personaName: entry.name, ...variables })
+  };
+}
+
+export function listPersonas(): Omit<Persona, 'instructions'>[] {
+  return Object.entries(PERSONAS).flatMap(([id, versions]) =>
+    versions.map(({ version, name, description }) => ({ id, version, name, description }))
+  );
+}
+
+export function getModeInstructions(mode: PromptMode, variables: TemplateVariables = {}): string {
+  return renderTemplate(registry.modes[mode].instructions, {
+    personaName: getPersona().name,
+    ...variables
+  });
+}
+
+export function getModeVersion(mode: PromptMode): number {
+  return registry.modes[mode].version;
+}
+
+export function renderNamedTemplate(name: TemplateName, variables: TemplateVariables = {}): string {
+  return renderTemplate(registry.templates[name], variables);
+}
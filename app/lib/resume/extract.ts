@@ -0,0 +1,61 @@
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { ResumeFormat } from '../storage/types';
+
+// Server-only: turns an uploaded resume into plain text for CASEY.
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+
+// Enough for a long resume while leaving CASEY room to talk about it
+export const MAX_RESUME_CHARS = 20000;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export function detectResumeFormat(fileName: string, mimeType: string): ResumeFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType === DOCX_TYPE || extension === 'docx') return 'docx';
+  if (mimeType.startsWith('text/') || extension === 'txt' || extension === 'md') return 'text';
+  return null;
+}
+
+// Collapses the spacing PDF and DOCX extraction leave behind
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Extracts the text of a resume. Throws when the file can't be parsed;
+ * returns an empty string for files without a text layer (e.g. scans).
+ */
+export async function extractResumeText(
+  data: Buffer,
+  format: ResumeFormat
+): Promise<{ text: string; truncated: boolean }> {
+  let raw: string;
+
+  switch (format) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      raw = (await extractText(pdf, { mergePages: true })).text;
+      break;
+    }
+    case 'docx':
+      raw = (await mammoth.extractRawText({ buffer: data })).value;
+      break;
+    case 'text':
+      raw = data.toString('utf8');
+      break;
+  }
+
+  const text = normalize(raw);
+  return text.length > MAX_RESUME_CHARS
+    ? { text: text.slice(0, MAX_RESUME_CHARS), truncated: true }
+    : { text, truncated: false };
+}
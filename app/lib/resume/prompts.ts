@@ -0,0 +1,29 @@
+import { getModeInstructions } from '../prompts/registry';
+import { Resume } from '../storage/types';
+
+// Session instructions for a resume review
+export function buildResumeInstructions(targetRole?: string): string {
+  return getModeInstructions('resume', { targetRole });
+}
+
+// The system message that puts the resume in front of CASEY
+export function formatResumeContext(resume: Resume): string {
+  const note = resume.truncated ? ' It was too long and has been cut off at the end.' : '';
+  return `The student's resume, extracted from "${resume.fileName}".${note}
+
+${resume.text}`;
+}
+
+// Per-response instructions that open the review
+export function buildReviewStartPrompt(targetRole?: string): string {
+  return `${buildResumeInstructions(targetRole)}
+
+The student just shared their resume. Thank them briefly, give your overall first impression in two or three sentences, then start with the most important improvement.`;
+}
+
+// Per-response instructions that turn the review into a checklist
+export function buildChecklistPrompt(targetRole?: string): string {
+  return `${buildResumeInstructions(targetRole)}
+
+Wrap up the review. Call save_resume_checklist with the concrete revisions the student should make: one short, actionable item per change, grouped by resume section, most important first, covering what you discussed and anything you didn't get to. Then tell the student in a sentence or two that the checklist is on screen.`;
+}
@@ -0,0 +1,49 @@
+import { RealtimeTool } from '../openai/tools';
+
+export type ChecklistEntryArgs = {
+  section: string;
+  text: string;
+};
+
+export type SaveChecklistArgs = {
+  items: ChecklistEntryArgs[];
+};
+
+/**
+ * Lets CASEY hand the student a revision checklist at the end of a review.
+ */
+export function createResumeTools(onChecklist: (args: SaveChecklistArgs) => Promise<number>): RealtimeTool[] {
+  const saveChecklist: RealtimeTool<SaveChecklistArgs> = {
+    name: 'save_resume_checklist',
+    description: "Save a revision checklist for the student's resume and show it on screen.",
+    parameters: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          description: 'Concrete revisions, most important first',
+          items: {
+            type: 'object',
+            properties: {
+              section: {
+                type: 'string',
+                description: 'Resume section, e.g. "Summary", "Experience", "Skills" or "Overall"'
+              },
+              text: {
+                type: 'string',
+                description: 'One actionable change, e.g. "Add the number of users to the app project bullet"'
+              }
+            },
+            required: ['section', 'text'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['items'],
+      additionalProperties: false
+    },
+    handler: async (args) => ({ saved: true, items: await onChecklist(args) })
+  };
+
+  return [saveChecklist];
+}
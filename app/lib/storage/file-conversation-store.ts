@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDirectory } from './json-directory';
+import {
+  ConversationRecord,
+  ConversationStore,
+  ConversationSummary,
+  CreateConversationInput,
+  StoredConversationItem
+} from './types';
+
+/**
+ * Local-development store that keeps one JSON file per conversation.
+ * Writes to the same conversation are serialized in-process.
+ */
+export class FileConversationStore implements ConversationStore {
+  private files: JsonDirectory<ConversationRecord>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async listConversations(userId: string): Promise<ConversationSummary[]> {
+    const summaries: ConversationSummary[] = [];
+
+    for (const id of await this.files.ids()) {
+      const record = await this.files.read(id);
+      if (record && record.userId === userId) {
+        summaries.push({
+          id: record.id,
+          userId: record.userId,
+          title: record.title,
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          itemCount: record.items.length
+        });
+      }
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async getConversation(id: string): Promise<ConversationRecord | null> {
+    return this.files.read(id);
+  }
+
+  async createConversation(input: CreateConversationInput): Promise<ConversationRecord> {
+    const now = new Date().toISOString();
+    const record: ConversationRecord = {
+      id: uuidv4(),
+      userId: input.userId,
+      title: input.title || `Session on ${now.slice(0, 10)}`,
+      createdAt: now,
+      updatedAt: now,
+      items: []
+    };
+
+    await this.files.write(record.id, record);
+    return record;
+  }
+
+  async appendItems(id: string, items: StoredConversationItem[]): Promise<ConversationRecord | null> {
+    return this.files.update(id, (record) => {
+      if (!record) {
+        return null;
+      }
+
+      for (const item of items) {
+        const index = record.items.findIndex(existing => existing.id === item.id);
+        if (index >= 0) {
+          // Keep the original timestamp so ordering reflects when the turn started
+          record.items[index] = { ...record.items[index], ...item, createdAt: record.items[index].createdAt };
+        } else {
+          record.items.push(item);
+        }
+      }
+
+      record.updatedAt = new Date().toISOString();
+      return record;
+    });
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    return this.files.remove(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { JsonDirectory } from './json-directory';
+import { EngagementRecord, EngagementStore } from './types';
+
+/**
+ * Local-development store with one JSON file per user.
+ */
+export class FileEngagementStore implements EngagementStore {
+  private files: JsonDirectory<EngagementRecord>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async getRecord(userId: string): Promise<EngagementRecord | null> {
+    return this.files.read(userId);
+  }
+
+  async updateRecord(
+    userId: string,
+    change: (current: EngagementRecord) => EngagementRecord
+  ): Promise<EngagementRecord> {
+    const record = await this.files.update(userId, current =>
+      change(current || { userId, items: [], checkIns: [] })
+    );
+    return record!;
+  }
+}
@@ -0,0 +1,50 @@
+import { JsonDirectory } from './json-directory';
+import { FeedbackFilter, FeedbackStore, ResponseFeedback, SaveFeedbackInput } from './types';
+
+/**
+ * Local-development store with one JSON file per rated response.
+ */
+export class FileFeedbackStore implements FeedbackStore {
+  private files: JsonDirectory<ResponseFeedback>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async getFeedback(responseId: string): Promise<ResponseFeedback | null> {
+    return this.files.read(responseId);
+  }
+
+  async listFeedback(filter: FeedbackFilter = {}): Promise<ResponseFeedback[]> {
+    const feedback: ResponseFeedback[] = [];
+
+    for (const id of await this.files.ids()) {
+      const entry = await this.files.read(id);
+      if (!entry) continue;
+      if (filter.userId && entry.userId !== filter.userId) continue;
+      if (filter.rating && entry.rating !== filter.rating) continue;
+      if (filter.since && entry.updatedAt < filter.since) continue;
+      feedback.push(entry);
+    }
+
+    return feedback.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async saveFeedback(input: SaveFeedbackInput): Promise<ResponseFeedback> {
+    const now = new Date().toISOString();
+
+    const saved = await this.files.update(input.responseId, current => ({
+      responseId: input.responseId,
+      userId: input.userId,
+      conversationId: input.conversationId ?? current?.conversationId ?? null,
+      itemId: input.itemId ?? current?.itemId ?? null,
+      rating: input.rating,
+      comment: input.comment ?? current?.comment ?? '',
+      responseText: input.responseText || current?.responseText || '',
+      createdAt: current?.createdAt || now,
+      updatedAt: now
+    }));
+
+    return saved!;
+  }
+}
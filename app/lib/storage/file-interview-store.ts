@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDirectory } from './json-directory';
+import { InterviewSession, InterviewStore, SaveInterviewInput } from './types';
+
+interface UserInterviews {
+  userId: string;
+  interviews: InterviewSession[];
+}
+
+/**
+ * Local-development store with one JSON file of interviews per user.
+ */
+export class FileInterviewStore implements InterviewStore {
+  private files: JsonDirectory<UserInterviews>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async listInterviews(userId: string): Promise<InterviewSession[]> {
+    const record = await this.files.read(userId);
+    return record ? record.interviews : [];
+  }
+
+  async saveInterview(input: SaveInterviewInput): Promise<InterviewSession> {
+    const interview: InterviewSession = {
+      id: uuidv4(),
+      userId: input.userId,
+      createdAt: new Date().toISOString(),
+      role: input.role,
+      seniority: input.seniority,
+      overallScore: input.overallScore,
+      summary: input.summary,
+      answers: input.answers
+    };
+
+    await this.files.update(input.userId, current => ({
+      userId: input.userId,
+      interviews: [interview, ...(current?.interviews || [])]
+    }));
+
+    return interview;
+  }
+}
@@ -0,0 +1,41 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDirectory } from './json-directory';
+import { MotivationStore, MotivationSummary, SaveMotivationSummaryInput } from './types';
+
+interface UserMotivations {
+  userId: string;
+  summaries: MotivationSummary[];
+}
+
+/**
+ * Local-development store with one JSON file of summaries per user.
+ */
+export class FileMotivationStore implements MotivationStore {
+  private files: JsonDirectory<UserMotivations>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async listSummaries(userId: string): Promise<MotivationSummary[]> {
+    const record = await this.files.read(userId);
+    return record ? record.summaries : [];
+  }
+
+  async saveSummary(input: SaveMotivationSummaryInput): Promise<MotivationSummary> {
+    const summary: MotivationSummary = {
+      id: uuidv4(),
+      userId: input.userId,
+      summary: input.summary,
+      themes: input.themes,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.files.update(input.userId, current => ({
+      userId: input.userId,
+      summaries: [summary, ...(current?.summaries || [])]
+    }));
+
+    return summary;
+  }
+}
@@ -0,0 +1,29 @@
+import { JsonDirectory } from './json-directory';
+import { OnboardingProgress, OnboardingStore } from './types';
+
+/**
+ * Local-development store with one JSON file per user.
+ */
+export class FileOnboardingStore implements OnboardingStore {
+  private files: JsonDirectory<OnboardingProgress>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async getProgress(userId: string): Promise<OnboardingProgress | null> {
+    return this.files.read(userId);
+  }
+
+  async updateProgress(
+    userId: string,
+    change: (current: OnboardingProgress | null) => OnboardingProgress
+  ): Promise<OnboardingProgress> {
+    const progress = await this.files.update(userId, change);
+    return progress!;
+  }
+
+  async deleteProgress(userId: string): Promise<boolean> {
+    return this.files.remove(userId);
+  }
+}
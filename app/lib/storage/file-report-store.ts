@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDirectory } from './json-directory';
+import { CareerPathReport, ReportStore, SaveReportInput } from './types';
+
+/**
+ * Local-development store that keeps one JSON file per Clarity report.
+ */
+export class FileReportStore implements ReportStore {
+  private files: JsonDirectory<CareerPathReport>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async listReports(userId: string): Promise<CareerPathReport[]> {
+    const reports: CareerPathReport[] = [];
+
+    for (const id of await this.files.ids()) {
+      const report = await this.files.read(id);
+      if (report && report.userId === userId) {
+        reports.push(report);
+      }
+    }
+
+    return reports.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getReport(id: string): Promise<CareerPathReport | null> {
+    return this.files.read(id);
+  }
+
+  async saveReport(input: SaveReportInput): Promise<CareerPathReport> {
+    const report: CareerPathReport = {
+      id: uuidv4(),
+      userId: input.userId,
+      createdAt: new Date().toISOString(),
+      summary: input.summary,
+      paths: input.paths,
+      nextSteps: input.nextSteps
+    };
+
+    await this.files.write(report.id, report);
+    return report;
+  }
+}
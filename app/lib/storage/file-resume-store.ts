@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JsonDirectory } from './json-directory';
+import { Resume, ResumeChecklistItem, ResumeStore, SaveResumeInput } from './types';
+
+/**
+ * Local-development store that keeps one JSON file per uploaded resume.
+ */
+export class FileResumeStore implements ResumeStore {
+  private files: JsonDirectory<Resume>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async listResumes(userId: string): Promise<Resume[]> {
+    const resumes: Resume[] = [];
+
+    for (const id of await this.files.ids()) {
+      const resume = await this.files.read(id);
+      if (resume && resume.userId === userId) {
+        resumes.push(resume);
+      }
+    }
+
+    return resumes.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  async getResume(id: string): Promise<Resume | null> {
+    return this.files.read(id);
+  }
+
+  async saveResume(input: SaveResumeInput): Promise<Resume> {
+    const resume: Resume = {
+      id: uuidv4(),
+      userId: input.userId,
+      fileName: input.fileName,
+      format: input.format,
+      text: input.text,
+      truncated: input.truncated,
+      uploadedAt: new Date().toISOString(),
+      checklist: [],
+      checklistUpdatedAt: null
+    };
+
+    await this.files.write(resume.id, resume);
+    return resume;
+  }
+
+  async saveChecklist(id: string, checklist: ResumeChecklistItem[]): Promise<Resume | null> {
+    return this.files.update(id, current => current && {
+      ...current,
+      checklist,
+      checklistUpdatedAt: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { JsonDirectory } from './json-directory';
+import { SaveVoiceSettingsInput, VoiceSettings, VoiceSettingsStore } from './types';
+
+/**
+ * Local-development store with one JSON file per user.
+ */
+export class FileVoiceSettingsStore implements VoiceSettingsStore {
+  private files: JsonDirectory<VoiceSettings>;
+
+  constructor(directory: string) {
+    this.files = new JsonDirectory(directory);
+  }
+
+  async getSettings(userId: string): Promise<VoiceSettings | null> {
+    return this.files.read(userId);
+  }
+
+  async saveSettings(input: SaveVoiceSettingsInput): Promise<VoiceSettings> {
+    const settings: VoiceSettings = { ...input, updatedAt: new Date().toISOString() };
+    await this.files.write(input.userId, settings);
+    return settings;
+  }
+}
@@ -0,0 +1,209 @@
+import path from 'path';
+import { FileConversationStore } from './file-conversation-store';
+import { FileEngagementStore } from './file-engagement-store';
+import { FileFeedbackStore } from './file-feedback-store';
+import { FileInterviewStore } from './file-interview-store';
+import { FileMotivationStore } from './file-motivation-store';
+import { FileOnboardingStore } from './file-onboarding-store';
+import { FileReportStore } from './file-report-store';
+import { FileResumeStore } from './file-resume-store';
+import { FileVoiceSettingsStore } from './file-voice-settings-store';
+import {
+  ConversationStore,
+  EngagementStore,
+  FeedbackStore,
+  InterviewStore,
+  MotivationStore,
+  OnboardingStore,
+  ReportStore,
+  ResumeStore,
+  VoiceSettingsStore
+} from './types';
+
+export * from './types';
+
+// Directory for local, file-backed stores. Git-ignored.
+export const DATA_DIR = process.env.CASEY_DATA_DIR || path.join(process.cwd(), '.data');
+
+let conversationStore: ConversationStore | null = null;
+let onboardingStore: OnboardingStore | null = null;
+let motivationStore: MotivationStore | null = null;
+let reportStore: ReportStore | null = null;
+let engagementStore: EngagementStore | null = null;
+let feedbackStore: FeedbackStore | null = null;
+let interviewStore: InterviewStore | null = null;
+let resumeStore: ResumeStore | null = null;
+let voiceSettingsStore: VoiceSettingsStore | null = null;
+
+/**
+ * Returns the configured conversation store. CONVERSATION_STORE selects the
+ * adapter; only "file" ships today, other backends plug in here.
+ */
+export function getConversationStore(): ConversationStore {
+  if (!conversationStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        conversationStore = new FileConversationStore(path.join(DATA_DIR, 'conversations'));
+        break;
+      default:
+        throw new Error(`Unknown conversation store: ${adapter}`);
+    }
+  }
+
+  return conversationStore;
+}
+
+/**
+ * Returns the configured onboarding store. Uses the same CONVERSATION_STORE
+ * adapter setting so all student data lives in one backend.
+ */
+export function getOnboardingStore(): OnboardingStore {
+  if (!onboardingStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        onboardingStore = new FileOnboardingStore(path.join(DATA_DIR, 'onboarding'));
+        break;
+      default:
+        throw new Error(`Unknown onboarding store: ${adapter}`);
+    }
+  }
+
+  return onboardingStore;
+}
+
+/**
+ * Returns the configured store for saved Alignment summaries.
+ */
+export function getMotivationStore(): MotivationStore {
+  if (!motivationStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        motivationStore = new FileMotivationStore(path.join(DATA_DIR, 'motivations'));
+        break;
+      default:
+        throw new Error(`Unknown motivation store: ${adapter}`);
+    }
+  }
+
+  return motivationStore;
+}
+
+/**
+ * Returns the configured store for Clarity career-path reports.
+ */
+export function getReportStore(): ReportStore {
+  if (!reportStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        reportStore = new FileReportStore(path.join(DATA_DIR, 'reports'));
+        break;
+      default:
+        throw new Error(`Unknown report store: ${adapter}`);
+    }
+  }
+
+  return reportStore;
+}
+
+/**
+ * Returns the configured store for goals, action items and check-ins.
+ */
+export function getEngagementStore(): EngagementStore {
+  if (!engagementStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        engagementStore = new FileEngagementStore(path.join(DATA_DIR, 'engagement'));
+        break;
+      default:
+        throw new Error(`Unknown engagement store: ${adapter}`);
+    }
+  }
+
+  return engagementStore;
+}
+
+/**
+ * Returns the configured store for feedback on CASEY's responses.
+ */
+export function getFeedbackStore(): FeedbackStore {
+  if (!feedbackStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        feedbackStore = new FileFeedbackStore(path.join(DATA_DIR, 'feedback'));
+        break;
+      default:
+        throw new Error(`Unknown feedback store: ${adapter}`);
+    }
+  }
+
+  return feedbackStore;
+}
+
+/**
+ * Returns the configured store for scored mock interviews.
+ */
+export function getInterviewStore(): InterviewStore {
+  if (!interviewStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        interviewStore = new FileInterviewStore(path.join(DATA_DIR, 'interviews'));
+        break;
+      default:
+        throw new Error(`Unknown interview store: ${adapter}`);
+    }
+  }
+
+  return interviewStore;
+}
+
+/**
+ * Returns the configured store for uploaded resumes and their checklists.
+ */
+export function getResumeStore(): ResumeStore {
+  if (!resumeStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        resumeStore = new FileResumeStore(path.join(DATA_DIR, 'resumes'));
+        break;
+      default:
+        throw new Error(`Unknown resume store: ${adapter}`);
+    }
+  }
+
+  return resumeStore;
+}
+
+/**
+ * Returns the configured store for per-user turn-taking settings.
+ */
+export function getVoiceSettingsStore(): VoiceSettingsStore {
+  if (!voiceSettingsStore) {
+    const adapter = process.env.CONVERSATION_STORE || 'file';
+
+    switch (adapter) {
+      case 'file':
+        voiceSettingsStore = new FileVoiceSettingsStore(path.join(DATA_DIR, 'voice-settings'));
+        break;
+      default:
+        throw new Error(`Unknown voice settings store: ${adapter}`);
+    }
+  }
+
+  return voiceSettingsStore;
+}
@@ -0,0 +1,107 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+export function isSafeId(id: string): boolean {
+  return SAFE_ID.test(id);
+}
+
+/**
+ * One JSON document per id in a directory. Shared by the file-backed stores;
+ * writes are atomic (temp file + rename) and updates to the same id are
+ * serialized in-process.
+ */
+export class JsonDirectory<T> {
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  constructor(private directory: string) {}
+
+  async ids(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => path.basename(entry, '.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async read(id: string): Promise<T | null> {
+    if (!isSafeId(id)) {
+      return null;
+    }
+
+    try {
+      const contents = await fs.readFile(this.filePath(id), 'utf8');
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(id: string, value: T): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  // Read-modify-write under the id's lock. Returning null leaves the file
+  // untouched.
+  async update(id: string, change: (current: T | null) => T | null | Promise<T | null>): Promise<T | null> {
+    return this.withLock(id, async () => {
+      const next = await change(await this.read(id));
+      if (next !== null) {
+        await this.write(id, next);
+      }
+      return next;
+    });
+  }
+
+  async remove(id: string): Promise<boolean> {
+    if (!isSafeId(id)) {
+      return false;
+    }
+
+    return this.withLock(id, async () => {
+      try {
+        await fs.unlink(this.filePath(id));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  private filePath(id: string): string {
+    if (!isSafeId(id)) {
+      throw new Error(`Invalid id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async withLock<R>(id: string, task: () => Promise<R>): Promise<R> {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.locks.set(id, settled);
+    settled.then(() => {
+      if (this.locks.get(id) === settled) {
+        this.locks.delete(id);
+      }
+    });
+    return next;
+  }
+}
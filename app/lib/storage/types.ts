@@ -0,0 +1,339 @@
+import { TurnMode, VadPreset, VadSettings } from '../openai/turn-detection';
+import { ConversationItem } from '../types/realtime';
+
+// A conversation item as the Realtime API described it, plus where and when
+// it happened. Item ids come from the API so late updates (e.g. a user
+// transcription) overwrite the same record.
+export interface StoredConversationItem extends ConversationItem {
+  id: string;
+  sessionId: string | null;
+  createdAt: string;
+}
+
+export interface ConversationRecord {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  items: StoredConversationItem[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  itemCount: number;
+}
+
+export interface CreateConversationInput {
+  userId: string;
+  title?: string;
+}
+
+/**
+ * Storage backend for coaching history. Adapters must upsert items by id so
+ * repeated writes of the same turn are harmless.
+ */
+export interface ConversationStore {
+  listConversations(userId: string): Promise<ConversationSummary[]>;
+  getConversation(id: string): Promise<ConversationRecord | null>;
+  createConversation(input: CreateConversationInput): Promise<ConversationRecord>;
+  appendItems(id: string, items: StoredConversationItem[]): Promise<ConversationRecord | null>;
+  deleteConversation(id: string): Promise<boolean>;
+}
+
+// What onboarding learns about a student. Injected into later sessions so
+// CASEY doesn't have to ask again.
+export interface CareerProfile {
+  interests: string[];
+  education: string;
+  skills: string[];
+  goals: string[];
+}
+
+export interface OnboardingAnswer {
+  questionId: string;
+  // What the student said or typed
+  text: string;
+  // The answer split into profile entries (list fields only)
+  values: string[];
+  answeredAt: string;
+}
+
+export interface OnboardingProgress {
+  userId: string;
+  // Index of the first unanswered question in the script
+  step: number;
+  answers: OnboardingAnswer[];
+  profile: CareerProfile;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+/**
+ * Per-user onboarding state. updateProgress must apply the change atomically
+ * so answers given in quick succession aren't lost.
+ */
+export interface OnboardingStore {
+  getProgress(userId: string): Promise<OnboardingProgress | null>;
+  updateProgress(
+    userId: string,
+    change: (current: OnboardingProgress | null) => OnboardingProgress
+  ): Promise<OnboardingProgress>;
+  deleteProgress(userId: string): Promise<boolean>;
+}
+
+// A motivation CASEY heard in the student's answers during Alignment
+export interface MotivationTheme {
+  theme: string;
+  // Short quote or paraphrase the theme came from
+  evidence: string;
+  promptId: string;
+}
+
+export interface MotivationSummary {
+  id: string;
+  userId: string;
+  summary: string;
+  themes: MotivationTheme[];
+  createdAt: string;
+}
+
+export interface SaveMotivationSummaryInput {
+  userId: string;
+  summary: string;
+  themes: MotivationTheme[];
+}
+
+/**
+ * Saved Alignment results, newest first.
+ */
+export interface MotivationStore {
+  listSummaries(userId: string): Promise<MotivationSummary[]>;
+  saveSummary(input: SaveMotivationSummaryInput): Promise<MotivationSummary>;
+}
+
+export interface CareerPath {
+  title: string;
+  // Why this path suits the student, grounded in what they said
+  fit: string;
+  requiredSkills: string[];
+  // Required skills the student doesn't show yet
+  skillGaps: string[];
+  nextSteps: string[];
+}
+
+// The structured part of a Clarity report, as produced by the model
+export interface CareerPathReportContent {
+  summary: string;
+  paths: CareerPath[];
+  nextSteps: string[];
+}
+
+export interface CareerPathReport extends CareerPathReportContent {
+  id: string;
+  userId: string;
+  createdAt: string;
+}
+
+export interface SaveReportInput extends CareerPathReportContent {
+  userId: string;
+}
+
+export interface ReportStore {
+  listReports(userId: string): Promise<CareerPathReport[]>;
+  getReport(id: string): Promise<CareerPathReport | null>;
+  saveReport(input: SaveReportInput): Promise<CareerPathReport>;
+}
+
+export type ActionItemKind = 'goal' | 'action';
+
+// A goal or next step the student committed to during coaching
+export interface ActionItem {
+  id: string;
+  userId: string;
+  kind: ActionItemKind;
+  title: string;
+  // YYYY-MM-DD, optional
+  dueDate: string | null;
+  status: 'open' | 'done';
+  createdAt: string;
+  completedAt: string | null;
+  // Hidden from follow-ups until this time
+  snoozedUntil: string | null;
+}
+
+export interface EngagementRecord {
+  userId: string;
+  items: ActionItem[];
+  // Days (YYYY-MM-DD, UTC) the student checked in with CASEY, ascending
+  checkIns: string[];
+}
+
+/**
+ * Per-user goals, action items and check-ins. updateRecord must apply the
+ * change atomically.
+ */
+export interface EngagementStore {
+  getRecord(userId: string): Promise<EngagementRecord | null>;
+  updateRecord(
+    userId: string,
+    change: (current: EngagementRecord) => EngagementRecord
+  ): Promise<EngagementRecord>;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+// A student's reaction to one CASEY response, keyed by the Realtime response id
+export interface ResponseFeedback {
+  responseId: string;
+  userId: string;
+  conversationId: string | null;
+  // Assistant message the response produced
+  itemId: string | null;
+  rating: FeedbackRating | null;
+  comment: string;
+  // What CASEY said, so exports can be read without the conversation
+  responseText: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveFeedbackInput {
+  responseId: string;
+  userId: string;
+  conversationId?: string | null;
+  itemId?: string | null;
+  rating: FeedbackRating | null;
+  comment?: string;
+  responseText?: string;
+}
+
+export interface FeedbackFilter {
+  userId?: string;
+  rating?: FeedbackRating;
+  // ISO timestamp; only feedback updated at or after it
+  since?: string;
+}
+
+/**
+ * Feedback on individual responses. Saving again for the same response
+ * replaces the earlier rating and comment.
+ */
+export interface FeedbackStore {
+  getFeedback(responseId: string): Promise<ResponseFeedback | null>;
+  listFeedback(filter?: FeedbackFilter): Promise<ResponseFeedback[]>;
+  saveFeedback(input: SaveFeedbackInput): Promise<ResponseFeedback>;
+}
+
+export type InterviewSeniority = 'internship' | 'entry-level' | 'experienced';
+
+// How long the student spoke, from the server VAD's speech events
+export interface AnswerTiming {
+  // Total speaking time across the answer's speech segments
+  speakingMs: number;
+  // First speech_started to last speech_stopped, pauses included
+  spanMs: number;
+  segments: number;
+}
+
+export interface InterviewAnswerFeedback {
+  questionNumber: number;
+  question: string;
+  // 1 (weak) to 5 (excellent)
+  score: number;
+  strengths: string;
+  improvements: string;
+  timing: AnswerTiming | null;
+}
+
+export interface InterviewDebrief {
+  role: string;
+  seniority: InterviewSeniority;
+  // Average of the answer scores, one decimal
+  overallScore: number;
+  summary: string;
+  answers: InterviewAnswerFeedback[];
+}
+
+export interface InterviewSession extends InterviewDebrief {
+  id: string;
+  userId: string;
+  createdAt: string;
+}
+
+export interface SaveInterviewInput extends InterviewDebrief {
+  userId: string;
+}
+
+/**
+ * Scored mock interviews, newest first.
+ */
+export interface InterviewStore {
+  listInterviews(userId: string): Promise<InterviewSession[]>;
+  saveInterview(input: SaveInterviewInput): Promise<InterviewSession>;
+}
+
+export type ResumeFormat = 'pdf' | 'docx' | 'text';
+
+export interface ResumeChecklistItem {
+  id: string;
+  // Resume section the change applies to, e.g. "Experience"
+  section: string;
+  text: string;
+  done: boolean;
+}
+
+export interface Resume {
+  id: string;
+  userId: string;
+  fileName: string;
+  format: ResumeFormat;
+  // Plain text extracted on upload; the original file is not kept
+  text: string;
+  // True when the text was cut to fit CASEY's context
+  truncated: boolean;
+  uploadedAt: string;
+  // Revision checklist from CASEY's review, empty until one is saved
+  checklist: ResumeChecklistItem[];
+  checklistUpdatedAt: string | null;
+}
+
+export interface SaveResumeInput {
+  userId: string;
+  fileName: string;
+  format: ResumeFormat;
+  text: string;
+  truncated: boolean;
+}
+
+export interface ResumeStore {
+  // Newest first
+  listResumes(userId: string): Promise<Resume[]>;
+  getResume(id: string): Promise<Resume | null>;
+  saveResume(input: SaveResumeInput): Promise<Resume>;
+  // Returns null when the resume doesn't exist
+  saveChecklist(id: string, checklist: ResumeChecklistItem[]): Promise<Resume | null>;
+}
+
+// How a student likes to take turns with CASEY
+export interface VoiceSettings {
+  userId: string;
+  turnMode: TurnMode;
+  // 'custom' once the advanced values no longer match a preset
+  vadPreset: VadPreset | 'custom';
+  vad: VadSettings;
+  // Hands-free audio is gated on the device so long pauses aren't uploaded
+  skipSilence: boolean;
+  updatedAt: string;
+}
+
+export type SaveVoiceSettingsInput = Omit<VoiceSettings, 'updatedAt'>;
+
+export interface VoiceSettingsStore {
+  getSettings(userId: string): Promise<VoiceSettings | null>;
+  saveSettings(input: SaveVoiceSettingsInput): Promise<VoiceSettings>;
+}
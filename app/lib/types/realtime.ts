@@ -1,22 +1,43 @@
 // Type definitions for OpenAI Realtime API
 
+export type AudioFormat = 'pcm16' | 'g711_ulaw' | 'g711_alaw';
+
+export type Voice = 'alloy' | 'echo' | 'shimmer';
+
+export type Modality = 'text' | 'audio';
+
+export type TransportType = 'webrtc' | 'websocket' | 'proxy';
+
+export interface TurnDetectionConfig {
+  type: 'server_vad';
+  threshold?: number;
+  prefix_padding_ms?: number;
+  silence_duration_ms?: number;
+  // false leaves responses to the client after each detected turn
+  create_response?: boolean;
+}
+
+export interface ToolDefinition {
+  type: string;
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
 export interface SessionConfig {
-  modalities?: string[];
+  modalities?: Modality[];
   instructions?: string;
-  voice?: string;
-  input_audio_format?: string;
-  output_audio_format?: string;
+  voice?: Voice;
+  input_audio_format?: AudioFormat;
+  output_audio_format?: AudioFormat;
   input_audio_transcription?: {
     model: string;
   };
-  turn_detection?: {
-    type: string;
-    threshold?: number;
-    prefix_padding_ms?: number;
-    silence_duration_ms?: number;
-  };
+  turn_detection?: TurnDetectionConfig | null;
+  tools?: ToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
   temperature?: number;
-  max_response_output_tokens?: string | number;
+  max_response_output_tokens?: number | 'inf';
 }
 
 export interface RealtimeEvent {
@@ -65,15 +86,19 @@ export interface DisconnectedEvent {
   reason?: string;
 }
 
+export interface ConversationItemContent {
+  type: 'input_text' | 'input_audio' | 'text' | 'audio';
+  text?: string;
+  audio?: string;
+  transcript?: string | null;
+}
+
 export interface ConversationItem {
+  id?: string;
   type: 'message' | 'function_call' | 'function_call_output';
   role?: 'user' | 'assistant' | 'system';
-  content?: Array<{
-    type: 'input_text' | 'input_audio' | 'text' | 'audio';
-    text?: string;
-    audio?: string;
-  }>;
-  id?: string;
+  status?: 'completed' | 'in_progress' | 'incomplete';
+  content?: ConversationItemContent[];
   call_id?: string;
   name?: string;
   arguments?: string;
@@ -82,6 +107,7 @@ export interface ConversationItem {
 
 export interface ResponseTextDeltaEvent {
   delta: string;
+  response_id: string;
   item_id: string;
   output_index: number;
   content_index: number;
@@ -96,6 +122,7 @@ export interface ResponseAudioDeltaEvent {
 
 export interface ResponseTextDoneEvent {
   text: string;
+  response_id: string;
   item_id: string;
   output_index: number;
   content_index: number;
@@ -162,4 +189,217 @@ export interface RateLimitsUpdatedEvent {
     remaining: number;
     reset_seconds: number;
   }>;
-}
\ No newline at end of file
+}
+
+export interface InputAudioBufferSpeechStartedEvent {
+  audio_start_ms: number;
+  item_id: string;
+}
+
+export interface InputAudioBufferSpeechStoppedEvent {
+  audio_end_ms: number;
+  item_id: string;
+}
+
+export interface ConversationItemInputAudioTranscriptionFailedEvent {
+  item_id: string;
+  content_index: number;
+  error: ErrorEvent;
+}
+
+export interface ConversationItemInputAudioTranscriptionDeltaEvent {
+  item_id: string;
+  content_index: number;
+  delta: string;
+}
+
+export interface ConversationItemTruncatedEvent {
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+export interface ConversationItemDeletedEvent {
+  item_id: string;
+}
+
+export interface ResponseOutputItemEvent {
+  response_id: string;
+  output_index: number;
+  item: ConversationItem;
+}
+
+export interface ResponseContentPartEvent {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  part: ConversationItemContent;
+}
+
+export interface ResponseAudioTranscriptDeltaEvent {
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string;
+}
+
+export interface ResponseAudioTranscriptDoneEvent {
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  transcript: string;
+}
+
+export interface ResponseFunctionCallArgumentsDeltaEvent {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  delta: string;
+}
+
+export interface ResponseFunctionCallArgumentsDoneEvent {
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+// WebRTC only: the server's playback of a response started, stopped or was cut
+export interface OutputAudioBufferEvent {
+  response_id: string;
+}
+
+// Payload of every server event the client understands, keyed by type
+export interface ServerEventPayloads {
+  'error': { error: ErrorEvent };
+  'session.created': { session: SessionCreatedEvent };
+  'session.updated': { session: SessionCreatedEvent };
+  'conversation.created': { conversation: { id: string; object: string } };
+  'input_audio_buffer.committed': InputAudioBufferCommittedEvent;
+  'input_audio_buffer.cleared': Record<string, never>;
+  'input_audio_buffer.speech_started': InputAudioBufferSpeechStartedEvent;
+  'input_audio_buffer.speech_stopped': InputAudioBufferSpeechStoppedEvent;
+  'conversation.item.created': ConversationItemCreatedEvent;
+  'conversation.item.input_audio_transcription.delta': ConversationItemInputAudioTranscriptionDeltaEvent;
+  'conversation.item.input_audio_transcription.completed': ConversationItemInputAudioTranscriptionCompletedEvent;
+  'conversation.item.input_audio_transcription.failed': ConversationItemInputAudioTranscriptionFailedEvent;
+  'conversation.item.truncated': ConversationItemTruncatedEvent;
+  'conversation.item.deleted': ConversationItemDeletedEvent;
+  'response.created': ResponseCreatedEvent;
+  'response.done': ResponseDoneEvent;
+  'response.output_item.added': ResponseOutputItemEvent;
+  'response.output_item.done': ResponseOutputItemEvent;
+  'response.content_part.added': ResponseContentPartEvent;
+  'response.content_part.done': ResponseContentPartEvent;
+  'response.text.delta': ResponseTextDeltaEvent;
+  'response.text.done': ResponseTextDoneEvent;
+  'response.audio_transcript.delta': ResponseAudioTranscriptDeltaEvent;
+  'response.audio_transcript.done': ResponseAudioTranscriptDoneEvent;
+  'response.audio.delta': ResponseAudioDeltaEvent;
+  'response.audio.done': ResponseAudioDoneEvent;
+  'response.function_call_arguments.delta': ResponseFunctionCallArgumentsDeltaEvent;
+  'response.function_call_arguments.done': ResponseFunctionCallArgumentsDoneEvent;
+  'output_audio_buffer.started': OutputAudioBufferEvent;
+  'output_audio_buffer.stopped': OutputAudioBufferEvent;
+  'output_audio_buffer.cleared': OutputAudioBufferEvent;
+  'rate_limits.updated': RateLimitsUpdatedEvent;
+}
+
+export type ServerEventType = keyof ServerEventPayloads;
+
+// A complete server event of a known type
+export type TypedServerEvent<K extends ServerEventType> = ServerEventPayloads[K] & {
+  event_id: string;
+  type: K;
+};
+
+export type KnownServerEvent = { [K in ServerEventType]: TypedServerEvent<K> }[ServerEventType];
+
+// A server message the client could not accept. The raw payload is kept so
+// upstream API changes can be diagnosed.
+export interface ProtocolErrorEvent {
+  reason: 'unparseable' | 'unknown_type' | 'invalid_payload';
+  problems: string[];
+  raw: unknown;
+}
+
+// Client -> server events
+
+export interface InputAudioBufferCommitEvent {
+  type: 'input_audio_buffer.commit';
+}
+
+export interface InputAudioBufferAppendEvent {
+  type: 'input_audio_buffer.append';
+  audio: string;
+}
+
+export interface InputAudioBufferClearEvent {
+  type: 'input_audio_buffer.clear';
+}
+
+export interface ConversationItemCreateEvent {
+  type: 'conversation.item.create';
+  previous_item_id?: string | null;
+  item: ConversationItem;
+}
+
+export interface ConversationItemTruncateEvent {
+  type: 'conversation.item.truncate';
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+export interface ConversationItemDeleteEvent {
+  type: 'conversation.item.delete';
+  item_id: string;
+}
+
+export interface ResponseCreateEvent {
+  type: 'response.create';
+  commit?: boolean;
+  cancel_previous?: boolean;
+  append?: boolean;
+  response?: {
+    modalities?: Modality[];
+    instructions?: string;
+    voice?: Voice;
+    output_audio_format?: AudioFormat;
+    tools?: Array<{ type: string; name: string; description?: string; parameters?: unknown }>;
+    tool_choice?: 'auto' | 'none' | 'required';
+    temperature?: number;
+    max_output_tokens?: number | 'inf';
+  };
+}
+
+export interface ResponseCancelEvent {
+  type: 'response.cancel';
+}
+
+export interface SessionUpdateEvent {
+  type: 'session.update';
+  session: SessionConfig;
+}
+
+export type ClientEvent =
+  | InputAudioBufferCommitEvent
+  | InputAudioBufferAppendEvent
+  | InputAudioBufferClearEvent
+  | ConversationItemCreateEvent
+  | ConversationItemTruncateEvent
+  | ConversationItemDeleteEvent
+  | ResponseCreateEvent
+  | ResponseCancelEvent
+  | SessionUpdateEvent;
+
+// Server -> client envelope; payload interfaces above describe the fields
+export type ServerEvent = {
+  event_id: string;
+  type: string;
+  [key: string]: unknown;
+};
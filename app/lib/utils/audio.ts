@@ -1,100 +1,189 @@
+import { LocalVad, LocalVadOptions } from './local-vad';
+
+// The Realtime API's pcm16 format: 24 kHz mono, little-endian 16-bit
+export const PCM16_SAMPLE_RATE = 24000;
+
+// Served from public/; see the comment there
+const CAPTURE_WORKLET_URL = '/worklets/pcm-capture.js';
+
+// Chunk bounds for input_audio_buffer.append: smaller floods the connection
+// with events, larger delays server VAD
+const MIN_CHUNK_MS = 20;
+const MAX_CHUNK_MS = 100;
+const DEFAULT_CHUNK_MS = 40;
+
+/**
+ * Turns Float32 frames at the capture rate into fixed-size PCM16 chunks at
+ * the output rate. Resampling is linear interpolation, carried across frames
+ * so chunk boundaries don't click.
+ */
+export class Pcm16Encoder {
+  private step: number;
+  // Read position in the current frame; -1 is the previous frame's last sample
+  private position = 0;
+  private previous = 0;
+  private chunk: Int16Array;
+  private length = 0;
+
+  constructor(inputRate: number, outputRate: number = PCM16_SAMPLE_RATE, chunkMs: number = DEFAULT_CHUNK_MS) {
+    this.step = inputRate / outputRate;
+    const ms = Math.min(MAX_CHUNK_MS, Math.max(MIN_CHUNK_MS, chunkMs));
+    this.chunk = new Int16Array(Math.round(outputRate * ms / 1000));
+  }
+
+  // Returns the chunks completed by this frame, oldest first
+  push(frame: Float32Array): ArrayBuffer[] {
+    const chunks: ArrayBuffer[] = [];
+    const last = frame.length - 1;
+
+    for (; this.position < last; this.position += this.step) {
+      const index = Math.floor(this.position);
+      const from = index < 0 ? this.previous : frame[index];
+      const to = frame[index + 1];
+      const sample = from + (to - from) * (this.position - index);
+
+      this.chunk[this.length++] = toInt16(sample);
+      if (this.length === this.chunk.length) {
+        chunks.push(this.chunk.slice().buffer);
+        this.length = 0;
+      }
+    }
+
+    if (frame.length > 0) {
+      this.position -= frame.length;
+      this.previous = frame[last];
+    }
+    return chunks;
+  }
+
+  // The partial chunk left over, e.g. when capture stops mid-sentence
+  flush(): ArrayBuffer | null {
+    if (this.length === 0) {
+      return null;
+    }
+    const rest = this.chunk.slice(0, this.length).buffer;
+    this.length = 0;
+    return rest;
+  }
+}
+
+function toInt16(sample: number): number {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF;
+}
+
+export interface AudioCaptureOptions {
+  // Capture from an existing stream instead of opening the microphone;
+  // the caller keeps ownership of its tracks
+  stream?: MediaStream;
+  chunkMs?: number;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  // Drop silent frames before they are encoded; see LocalVad
+  localVad?: LocalVadOptions;
+}
+
+/**
+ * Microphone capture through an AudioWorklet, delivered as PCM16 24 kHz mono
+ * chunks ready for input_audio_buffer.append.
+ */
 export class AudioCapture {
-  private mediaRecorder: MediaRecorder | null = null;
   private audioStream: MediaStream | null = null;
-  private audioChunks: Blob[] = [];
+  private ownsStream = false;
+  private audioContext: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private encoder: Pcm16Encoder | null = null;
+  private localVad: LocalVad | null = null;
+  private onDataAvailable: ((data: ArrayBuffer) => void) | null = null;
   private isRecording: boolean = false;
 
   async startCapture(
     onDataAvailable: (data: ArrayBuffer) => void,
-    options?: {
-      sampleRate?: number;
-      channelCount?: number;
-      echoCancellation?: boolean;
-      noiseSuppression?: boolean;
-      autoGainControl?: boolean;
-    }
+    options?: AudioCaptureOptions
   ): Promise<void> {
     try {
-      const constraints = {
+      this.ownsStream = !options?.stream;
+      this.audioStream = options?.stream || await navigator.mediaDevices.getUserMedia({
         audio: {
-          sampleRate: options?.sampleRate || 24000,
-          channelCount: options?.channelCount || 1,
+          channelCount: 1,
           echoCancellation: options?.echoCancellation !== false,
           noiseSuppression: options?.noiseSuppression !== false,
           autoGainControl: options?.autoGainControl !== false,
         }
-      };
-
-      this.audioStream = await navigator.mediaDevices.getUserMedia(constraints);
-
-      const mimeType = this.getSupportedMimeType();
-      if (!mimeType) {
-        throw new Error('No supported audio MIME type found');
-      }
-
-      this.mediaRecorder = new MediaRecorder(this.audioStream, {
-        mimeType,
-        audioBitsPerSecond: 128000
       });
 
-      this.mediaRecorder.ondataavailable = async (event) => {
-        if (event.data.size > 0) {
-          const arrayBuffer = await event.data.arrayBuffer();
-          onDataAvailable(arrayBuffer);
-          this.audioChunks.push(event.data);
+      // Runs at the device rate; Firefox can't mix a stream into a context
+      // at another rate, so resampling happens in the encoder instead
+      this.audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      await this.audioContext.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+
+      this.encoder = new Pcm16Encoder(this.audioContext.sampleRate, PCM16_SAMPLE_RATE, options?.chunkMs);
+      this.localVad = options?.localVad ? new LocalVad(this.audioContext.sampleRate, options.localVad) : null;
+      this.onDataAvailable = onDataAvailable;
+
+      // No outputs: the node keeps processing without being wired to the speakers
+      this.workletNode = new AudioWorkletNode(this.audioContext, 'pcm-capture', { numberOfOutputs: 0 });
+      this.workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        const frames = this.localVad ? this.localVad.process(event.data) : [event.data];
+        frames.forEach(frame => {
+          this.encoder?.push(frame).forEach(chunk => this.onDataAvailable?.(chunk));
+        });
+        // Speech just ended: send the tail now rather than with the next utterance
+        if (this.localVad && frames.length > 0 && !this.localVad.isSpeaking()) {
+          const rest = this.encoder?.flush();
+          if (rest) {
+            this.onDataAvailable?.(rest);
+          }
         }
       };
 
-      this.mediaRecorder.onerror = (event) => {
-        console.error('MediaRecorder error:', event);
-      };
-
-      this.mediaRecorder.start(100);
+      this.source = this.audioContext.createMediaStreamSource(this.audioStream);
+      this.source.connect(this.workletNode);
       this.isRecording = true;
     } catch (error) {
       console.error('Error starting audio capture:', error);
+      this.stopCapture();
       throw error;
     }
   }
 
-  stopCapture(): Blob | null {
-    if (!this.mediaRecorder || !this.isRecording) {
-      return null;
+  stopCapture(): void {
+    const rest = this.encoder?.flush();
+    if (rest && this.isRecording) {
+      this.onDataAvailable?.(rest);
     }
-
-    this.mediaRecorder.stop();
     this.isRecording = false;
-
-    if (this.audioStream) {
-      this.audioStream.getTracks().forEach(track => track.stop());
-      this.audioStream = null;
+    this.encoder = null;
+    this.localVad = null;
+    this.onDataAvailable = null;
+
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
     }
 
-    if (this.audioChunks.length > 0) {
-      const mimeType = this.mediaRecorder.mimeType || 'audio/webm';
-      const audioBlob = new Blob(this.audioChunks, { type: mimeType });
-      this.audioChunks = [];
-      return audioBlob;
+    if (this.source) {
+      this.source.disconnect();
+      this.source = null;
     }
 
-    return null;
-  }
-
-  private getSupportedMimeType(): string | null {
-    const types = [
-      'audio/webm;codecs=opus',
-      'audio/webm',
-      'audio/ogg;codecs=opus',
-      'audio/mp4',
-    ];
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext.close();
+    }
+    this.audioContext = null;
 
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        return type;
-      }
+    if (this.audioStream && this.ownsStream) {
+      this.audioStream.getTracks().forEach(track => track.stop());
     }
+    this.audioStream = null;
+  }
 
-    return null;
+  // E.g. a longer hangover after the server's silence duration changed
+  updateLocalVad(options: Omit<LocalVadOptions, 'onSpeechStart' | 'onSpeechEnd'>): void {
+    this.localVad?.update(options);
   }
 
   getRecordingState(): boolean {
@@ -116,11 +205,12 @@ export class AudioCapture {
     }
   }
 
+  // Clamps to [-1, 1]; negative samples scale to -32768, positive to 32767
   static convertFloat32ToInt16(buffer: Float32Array): Int16Array {
     const l = buffer.length;
     const buf = new Int16Array(l);
     for (let i = 0; i < l; i++) {
-      buf[i] = Math.min(1, buffer[i]) * 0x7FFF;
+      buf[i] = toInt16(buffer[i]);
     }
     return buf;
   }
@@ -142,56 +232,95 @@ export class AudioCapture {
   }
 }
 
+// Audio scheduled ahead of the clock when playback starts or runs dry, so
+// late network chunks don't leave gaps
+const DEFAULT_JITTER_BUFFER_MS = 80;
+
+export interface PlaybackPosition {
+  // Assistant item the audio belongs to, when known
+  itemId?: string;
+  // How much of that item's audio has been heard
+  ms: number;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  itemId?: string;
+  startTime: number;
+  duration: number;
+  // Position of this chunk within its item's audio
+  offsetMs: number;
+}
+
+/**
+ * Streams PCM16 24 kHz chunks (response.audio.delta) to the speakers. Chunks
+ * are scheduled back to back on the AudioContext clock, which also tells how
+ * far playback has got for truncating interrupted items.
+ */
 export class AudioPlayer {
   private audioContext: AudioContext | null = null;
-  private audioQueue: AudioBuffer[] = [];
-  private isPlaying: boolean = false;
-
-  constructor() {
+  private scheduled: ScheduledChunk[] = [];
+  private nextStartTime = 0;
+  private queuedItemId: string | undefined;
+  private queuedItemMs = 0;
+  // Where playback got to when the queue last emptied
+  private lastPosition: PlaybackPosition | null = null;
+  private jitterSeconds: number;
+
+  constructor(options?: { jitterBufferMs?: number }) {
+    this.jitterSeconds = (options?.jitterBufferMs ?? DEFAULT_JITTER_BUFFER_MS) / 1000;
     if (typeof window !== 'undefined') {
       this.audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
     }
   }
 
-  async playAudioData(audioData: ArrayBuffer): Promise<void> {
-    if (!this.audioContext) {
+  playPcm16(pcm: Int16Array, itemId?: string): void {
+    const context = this.audioContext;
+    if (!context) {
       throw new Error('AudioContext not available');
     }
-
-    try {
-      const audioBuffer = await this.audioContext.decodeAudioData(audioData);
-      this.audioQueue.push(audioBuffer);
-      
-      if (!this.isPlaying) {
-        this.processQueue();
-      }
-    } catch (error) {
-      console.error('Error decoding audio data:', error);
-      throw error;
+    if (pcm.length === 0) {
+      return;
+    }
+    // Contexts created before a user gesture start suspended
+    if (context.state === 'suspended') {
+      context.resume();
     }
-  }
 
-  private async processQueue(): Promise<void> {
-    if (!this.audioContext || this.audioQueue.length === 0) {
-      this.isPlaying = false;
-      return;
+    if (itemId !== this.queuedItemId) {
+      this.queuedItemId = itemId;
+      this.queuedItemMs = 0;
     }
 
-    this.isPlaying = true;
-    const audioBuffer = this.audioQueue.shift()!;
+    // The source node resamples from 24 kHz to the context's rate
+    const buffer = context.createBuffer(1, pcm.length, PCM16_SAMPLE_RATE);
+    buffer.getChannelData(0).set(AudioPlayer.convertInt16ToFloat32(pcm));
 
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.audioContext.destination);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+
+    // Starting, or the queue ran dry: lead the clock by the jitter buffer
+    if (this.nextStartTime <= context.currentTime) {
+      this.nextStartTime = context.currentTime + this.jitterSeconds;
+    }
 
-    source.onended = () => {
-      this.processQueue();
+    const chunk: ScheduledChunk = {
+      source,
+      itemId,
+      startTime: this.nextStartTime,
+      duration: buffer.duration,
+      offsetMs: this.queuedItemMs
     };
+    source.onended = () => this.finish(chunk);
+    source.start(chunk.startTime);
 
-    source.start();
+    this.scheduled.push(chunk);
+    this.nextStartTime += buffer.duration;
+    this.queuedItemMs += buffer.duration * 1000;
   }
 
-  async playBase64Audio(base64Audio: string): Promise<void> {
+  playBase64Audio(base64Audio: string, itemId?: string): void {
     const binaryString = atob(base64Audio);
     const bytes = new Uint8Array(binaryString.length);
     
@@ -199,21 +328,78 @@ export class AudioPlayer {
       bytes[i] = binaryString.charCodeAt(i);
     }
 
-    const audioData = bytes.buffer;
-    await this.playAudioData(audioData);
+    this.playPcm16(new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1), itemId);
   }
 
+  /**
+   * What has been heard of the item playing now, or of the last item played
+   * if the queue is empty. Null before anything has played.
+   */
+  getPlaybackPosition(): PlaybackPosition | null {
+    if (!this.audioContext || this.scheduled.length === 0) {
+      return this.lastPosition;
+    }
+
+    const now = this.audioContext.currentTime;
+    const playing = this.scheduled.filter(chunk => chunk.startTime <= now).pop();
+    if (!playing) {
+      // Still in the jitter buffer
+      const next = this.scheduled[0];
+      return { itemId: next.itemId, ms: next.offsetMs };
+    }
+
+    const heard = Math.min(playing.duration, now - playing.startTime) * 1000;
+    return { itemId: playing.itemId, ms: Math.round(playing.offsetMs + heard) };
+  }
+
+  private finish(chunk: ScheduledChunk): void {
+    const index = this.scheduled.indexOf(chunk);
+    if (index === -1) {
+      return;
+    }
+    this.scheduled.splice(index, 1);
+    this.lastPosition = { itemId: chunk.itemId, ms: Math.round(chunk.offsetMs + chunk.duration * 1000) };
+  }
+
+  // Silences everything queued; the context stays open for the next response
   stop(): void {
-    this.audioQueue = [];
-    this.isPlaying = false;
-    
-    if (this.audioContext) {
+    const position = this.getPlaybackPosition();
+    const scheduled = this.scheduled;
+    this.scheduled = [];
+    scheduled.forEach(chunk => {
+      chunk.source.onended = null;
+      try {
+        chunk.source.stop();
+      } catch {
+        // Already stopped
+      }
+      chunk.source.disconnect();
+    });
+
+    this.lastPosition = position;
+    this.nextStartTime = 0;
+    this.queuedItemId = undefined;
+    this.queuedItemMs = 0;
+  }
+
+  close(): void {
+    this.stop();
+    if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close();
-      this.audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
     }
+    this.audioContext = null;
   }
 
   getPlaybackState(): boolean {
-    return this.isPlaying;
+    return this.scheduled.length > 0;
   }
-}
\ No newline at end of file
+
+  static convertInt16ToFloat32(buffer: Int16Array): Float32Array {
+    const l = buffer.length;
+    const buf = new Float32Array(l);
+    for (let i = 0; i < l; i++) {
+      buf[i] = buffer[i] / (buffer[i] < 0 ? 0x8000 : 0x7FFF);
+    }
+    return buf;
+  }
+}
@@ -0,0 +1,82 @@
+// Minimal JSON Schema subset used for tool parameters and server events:
+// type, properties, required, enum, items and additionalProperties. Enough to
+// catch shape mistakes without pulling in a full validator.
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  // A list allows any of the types, e.g. ['string', 'null']
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(type: JsonSchema['type'], value: unknown): boolean {
+  if (Array.isArray(type)) {
+    return type.some(option => matchesType(option, value));
+  }
+
+  switch (type) {
+    case undefined:
+      return true;
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * Returns a list of human-readable problems, empty when the value matches.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+  if (!matchesType(schema.type, value)) {
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+    return [`${path} should be ${expected}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} should be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateJsonSchema(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,137 @@
+// Speech needs this much energy even in a silent room
+const MIN_SPEECH_DB = -55;
+const DEFAULT_MARGIN_DB = 10;
+// Voiced speech crosses zero a few thousand times a second; hiss, fans and
+// clicks cross far more often
+const MAX_ONSET_CROSSINGS_PER_SECOND = 5000;
+// Consecutive speech-like audio needed to open the gate, so a knock can't
+const DEFAULT_MIN_SPEECH_MS = 60;
+const DEFAULT_PREFIX_MS = 300;
+const DEFAULT_HANGOVER_MS = 800;
+// How quickly the noise floor follows the room when nobody is talking
+const NOISE_FLOOR_ADAPTATION = 0.05;
+
+export interface LocalVadOptions {
+  // dB above the room's noise floor that counts as speech
+  marginDb?: number;
+  minSpeechMs?: number;
+  // Audio kept from before the onset, so first syllables aren't clipped
+  prefixMs?: number;
+  // Silence sent after speech before the gate closes. Keep it longer than the
+  // server VAD's silence_duration_ms, or the server never sees the turn end.
+  hangoverMs?: number;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface FrameFeatures {
+  energyDb: number;
+  crossingsPerSecond: number;
+}
+
+export function analyzeFrame(frame: Float32Array, sampleRate: number): FrameFeatures {
+  let power = 0;
+  let crossings = 0;
+  for (let i = 0; i < frame.length; i++) {
+    power += frame[i] * frame[i];
+    if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) {
+      crossings++;
+    }
+  }
+
+  return {
+    energyDb: 10 * Math.log10(Math.max(power / Math.max(frame.length, 1), 1e-10)),
+    crossingsPerSecond: frame.length > 1 ? crossings * sampleRate / (frame.length - 1) : 0
+  };
+}
+
+/**
+ * Energy and zero-crossing voice activity detector for microphone frames.
+ * process() returns the frames worth sending: nothing during long silences,
+ * the buffered prefix plus the current frame when speech starts, and every
+ * frame until the hangover after speech runs out.
+ */
+export class LocalVad {
+  private options: Required<Omit<LocalVadOptions, 'onSpeechStart' | 'onSpeechEnd'>>;
+  private noiseFloorDb = MIN_SPEECH_DB - DEFAULT_MARGIN_DB;
+  private speaking = false;
+  private onsetMs = 0;
+  private silenceMs = 0;
+  private prefix: Float32Array[] = [];
+  private prefixMs = 0;
+
+  constructor(private sampleRate: number, private callbacks: LocalVadOptions = {}) {
+    this.options = {
+      marginDb: callbacks.marginDb ?? DEFAULT_MARGIN_DB,
+      minSpeechMs: callbacks.minSpeechMs ?? DEFAULT_MIN_SPEECH_MS,
+      prefixMs: callbacks.prefixMs ?? DEFAULT_PREFIX_MS,
+      hangoverMs: callbacks.hangoverMs ?? DEFAULT_HANGOVER_MS
+    };
+  }
+
+  // E.g. a new hangover after the server's silence_duration_ms changed
+  update(options: Omit<LocalVadOptions, 'onSpeechStart' | 'onSpeechEnd'>): void {
+    this.options = {
+      marginDb: options.marginDb ?? this.options.marginDb,
+      minSpeechMs: options.minSpeechMs ?? this.options.minSpeechMs,
+      prefixMs: options.prefixMs ?? this.options.prefixMs,
+      hangoverMs: options.hangoverMs ?? this.options.hangoverMs
+    };
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  process(frame: Float32Array): Float32Array[] {
+    const frameMs = frame.length / this.sampleRate * 1000;
+    const { energyDb, crossingsPerSecond } = analyzeFrame(frame, this.sampleRate);
+    const loud = energyDb > Math.max(MIN_SPEECH_DB, this.noiseFloorDb + this.options.marginDb);
+
+    if (this.speaking) {
+      // Unvoiced sounds ("s", "f") cross zero often, so once talking,
+      // energy alone keeps the gate open
+      this.silenceMs = loud ? 0 : this.silenceMs + frameMs;
+      if (this.silenceMs >= this.options.hangoverMs) {
+        this.speaking = false;
+        this.silenceMs = 0;
+        this.callbacks.onSpeechEnd?.();
+      }
+      return [frame];
+    }
+
+    if (loud && crossingsPerSecond <= MAX_ONSET_CROSSINGS_PER_SECOND) {
+      this.onsetMs += frameMs;
+    } else {
+      this.onsetMs = 0;
+      if (!loud) {
+        this.trackNoiseFloor(energyDb);
+      }
+    }
+
+    if (this.onsetMs >= this.options.minSpeechMs) {
+      this.speaking = true;
+      this.onsetMs = 0;
+      const frames = [...this.prefix, frame];
+      this.prefix = [];
+      this.prefixMs = 0;
+      this.callbacks.onSpeechStart?.();
+      return frames;
+    }
+
+    this.prefix.push(frame);
+    this.prefixMs += frameMs;
+    while (this.prefix.length > 1 && this.prefixMs - frameMs >= this.options.prefixMs) {
+      const dropped = this.prefix.shift()!;
+      this.prefixMs -= dropped.length / this.sampleRate * 1000;
+    }
+    return [];
+  }
+
+  private trackNoiseFloor(energyDb: number): void {
+    // Drop straight to a quieter room, rise slowly so speech can't drag it up
+    this.noiseFloorDb = energyDb < this.noiseFloorDb
+      ? energyDb
+      : this.noiseFloorDb + (energyDb - this.noiseFloorDb) * NOISE_FLOOR_ADAPTATION;
+  }
+}
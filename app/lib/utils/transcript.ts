@@ -0,0 +1,97 @@
+import { ConversationItem } from '../types/realtime';
+
+export interface TranscriptMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  text: string;
+  // 'pending' until a spoken user turn is transcribed or an assistant turn starts streaming
+  status: 'pending' | 'streaming' | 'completed' | 'failed';
+  // Realtime response that produced an assistant turn, once it is done
+  responseId?: string;
+}
+
+function upsert(
+  messages: TranscriptMessage[],
+  id: string,
+  update: (existing: TranscriptMessage | undefined) => TranscriptMessage
+): TranscriptMessage[] {
+  const index = messages.findIndex(message => message.id === id);
+  if (index === -1) {
+    return [...messages, update(undefined)];
+  }
+  const next = messages.slice();
+  next[index] = update(messages[index]);
+  return next;
+}
+
+export function getItemText(item: ConversationItem): string {
+  return (item.content || [])
+    .map(part => part.text || part.transcript || '')
+    .join('');
+}
+
+// Each helper below applies one Realtime event to the log, keyed by item id so
+// events that arrive out of order still land in the right bubble.
+
+export function applyItemCreated(messages: TranscriptMessage[], item: ConversationItem): TranscriptMessage[] {
+  if (item.type !== 'message' || !item.id || !item.role) {
+    return messages;
+  }
+
+  const text = getItemText(item);
+  return upsert(messages, item.id, existing => existing || {
+    id: item.id!,
+    role: item.role!,
+    text,
+    status: text ? 'completed' : 'pending'
+  });
+}
+
+export function applyUserTranscript(
+  messages: TranscriptMessage[],
+  itemId: string,
+  transcript: string,
+  failed: boolean = false
+): TranscriptMessage[] {
+  return upsert(messages, itemId, existing => ({
+    id: itemId,
+    role: existing?.role || 'user',
+    text: transcript,
+    status: failed ? 'failed' : 'completed'
+  }));
+}
+
+export function applyAssistantDelta(messages: TranscriptMessage[], itemId: string, delta: string): TranscriptMessage[] {
+  return upsert(messages, itemId, existing => ({
+    id: itemId,
+    role: existing?.role || 'assistant',
+    text: (existing?.text || '') + delta,
+    status: 'streaming'
+  }));
+}
+
+export function applyAssistantDone(messages: TranscriptMessage[], itemId: string, text: string): TranscriptMessage[] {
+  return upsert(messages, itemId, existing => ({
+    id: itemId,
+    role: existing?.role || 'assistant',
+    text: text || existing?.text || '',
+    status: 'completed'
+  }));
+}
+
+// Tags the assistant messages a finished response produced with its id
+export function applyResponseDone(
+  messages: TranscriptMessage[],
+  responseId: string,
+  output: unknown[]
+): TranscriptMessage[] {
+  const itemIds = new Set(
+    (output as ConversationItem[])
+      .filter(item => item.type === 'message' && item.id)
+      .map(item => item.id)
+  );
+  if (itemIds.size === 0) {
+    return messages;
+  }
+  return messages.map(message => itemIds.has(message.id) ? { ...message, responseId } : message);
+}
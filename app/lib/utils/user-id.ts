@@ -0,0 +1,20 @@
+import { v4 as uuidv4 } from 'uuid';
+
+const STORAGE_KEY = 'casey.userId';
+
+/**
+ * Anonymous, per-browser identifier used to key a student's history until
+ * real accounts exist. Returns an empty string during server rendering.
+ */
+export function getUserId(): string {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+
+  let userId = window.localStorage.getItem(STORAGE_KEY);
+  if (!userId) {
+    userId = uuidv4();
+    window.localStorage.setItem(STORAGE_KEY, userId);
+  }
+  return userId;
+}
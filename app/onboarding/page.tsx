@@ -0,0 +1,217 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useRef, useState } from 'react';
+import VoiceInterface, { VoiceInterfaceHandle } from '@/app/components/voice/VoiceInterface';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import { useOnboarding } from '@/app/lib/hooks/useOnboarding';
+import { buildOnboardingInstructions } from '@/app/lib/onboarding/instructions';
+import { createOnboardingTool } from '@/app/lib/onboarding/tool';
+
+export default function OnboardingPage() {
+  const {
+    progress,
+    question,
+    questionIndex,
+    total,
+    isLoading,
+    isSaving,
+    error,
+    submitAnswer,
+    goBack,
+    restart
+  } = useOnboarding();
+
+  // Typed or transcribed answers not yet saved, by question id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const voiceRef = useRef<VoiceInterfaceHandle | null>(null);
+
+  // Realtime listeners are bound when the session connects, so they read the
+  // current question and save function through refs
+  const questionIdRef = useRef<string | null>(null);
+  questionIdRef.current = question?.id || null;
+  const submitRef = useRef(submitAnswer);
+  submitRef.current = submitAnswer;
+
+  const tools = useMemo(() => [
+    createOnboardingTool(args => submitRef.current(args.answer, args.values, args.question_id))
+  ], []);
+
+  const extraInstructions = progress
+    ? buildOnboardingInstructions(progress, questionIndex)
+    : undefined;
+
+  const savedAnswer = progress?.answers.find(answer => answer.questionId === question?.id)?.text || '';
+  const draft = question ? drafts[question.id] ?? savedAnswer : '';
+
+  const setDraft = (text: string) => {
+    const id = questionIdRef.current;
+    if (id) {
+      setDrafts(prev => ({ ...prev, [id]: text }));
+    }
+  };
+
+  const handleNext = async () => {
+    if (!question || !draft.trim()) {
+      return;
+    }
+
+    try {
+      const saved = await submitAnswer(draft.trim());
+      // Have CASEY pick up from the new question
+      voiceRef.current?.requestResponse(buildOnboardingInstructions(saved, saved.step));
+    } catch {
+      // Surfaced through the hook's error state
+    }
+  };
+
+  const handleRestart = async () => {
+    try {
+      await restart();
+    } catch {
+      // Surfaced through the hook's error state
+    }
+  };
+
+  const answered = progress?.answers.length || 0;
+  const isComplete = progress?.completedAt != null && !question;
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Onboarding</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          <h1 className="text-3xl sm:text-4xl font-bold text-[#4169E1] text-center">
+            Let&apos;s Dive Deeper into Who You Are
+          </h1>
+
+          <div className="w-full space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>{isComplete ? 'All done' : `Question ${Math.min(questionIndex + 1, total)} of ${total}`}</span>
+              <span>{answered}/{total} answered</span>
+            </div>
+            <div
+              className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={total}
+              aria-valuenow={answered}
+            >
+              <div
+                className="h-full bg-[#4169E1] transition-all duration-500"
+                style={{ width: `${(answered / total) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-600">Loading your progress...</p>
+          ) : (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+              {question ? (
+                <div className="space-y-2 text-center">
+                  <h2 className="text-xl font-semibold text-gray-800">{question.title}</h2>
+                  <p className="text-gray-600">{question.prompt}</p>
+                </div>
+              ) : progress && (
+                <div className="space-y-3">
+                  <h2 className="text-xl font-semibold text-gray-800 text-center">Here&apos;s what CASEY learned</h2>
+                  <dl className="space-y-2 text-gray-700">
+                    <div><dt className="font-medium">Interests</dt><dd>{progress.profile.interests.join(', ') || '—'}</dd></div>
+                    <div><dt className="font-medium">Education</dt><dd>{progress.profile.education || '—'}</dd></div>
+                    <div><dt className="font-medium">Skills</dt><dd>{progress.profile.skills.join(', ') || '—'}</dd></div>
+                    <div><dt className="font-medium">Goals</dt><dd>{progress.profile.goals.join(', ') || '—'}</dd></div>
+                  </dl>
+                </div>
+              )}
+
+              <VoiceInterface
+                ref={voiceRef}
+                extraInstructions={extraInstructions}
+                includeProfile={false}
+                includeEngagement={false}
+                tools={tools}
+                onTranscript={setDraft}
+              />
+
+              {question && (
+                <div className="space-y-3">
+                  <label htmlFor="onboarding-answer" className="block text-sm font-medium text-gray-700">
+                    Your answer (speak or type)
+                  </label>
+                  <textarea
+                    id="onboarding-answer"
+                    value={draft}
+                    onChange={event => setDraft(event.target.value)}
+                    rows={3}
+                    className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-[var(--radius-sm)]">
+                  <p className="text-red-700">{error}</p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                {question && questionIndex > 0 && (
+                  <button
+                    onClick={goBack}
+                    className="px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+                  >
+                    Back
+                  </button>
+                )}
+                {question ? (
+                  <button
+                    onClick={handleNext}
+                    disabled={isSaving || !draft.trim()}
+                    className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : 'Next →'}
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleRestart}
+                      disabled={isSaving}
+                      className="px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all disabled:opacity-50"
+                    >
+                      Start over
+                    </button>
+                    <Link
+                      href="/"
+                      className="flex-1 px-6 py-3 bg-[#4169E1] text-white text-center rounded-full hover:bg-[#3051B8] transition-all"
+                    >
+                      Talk to CASEY →
+                    </Link>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,3 +1,4 @@
+import Link from 'next/link';
 import VoiceInterface from '@/app/components/voice/VoiceInterface';
 import CaseyLogo from '@/app/components/CaseyLogo';
 import AnimatedShapes from '@/app/components/AnimatedShapes';
@@ -34,6 +35,30 @@ export default function Home() {
             <VoiceInterface />
           </div>
 
+          <div className="flex flex-col sm:flex-row items-center gap-3 sm:gap-6 animate-fadeIn">
+            <Link href="/onboarding" className="text-[#4169E1] font-medium hover:underline">
+              New here? Tell CASEY about yourself →
+            </Link>
+            <Link href="/alignment" className="text-[#4169E1] font-medium hover:underline">
+              Explore your motivations →
+            </Link>
+            <Link href="/interview" className="text-[#4169E1] font-medium hover:underline">
+              Practice an interview →
+            </Link>
+            <Link href="/resume" className="text-[#4169E1] font-medium hover:underline">
+              Review your resume →
+            </Link>
+            <Link href="/cover-letter" className="text-[#4169E1] font-medium hover:underline">
+              Draft a cover letter →
+            </Link>
+            <Link href="/clarity" className="text-[#4169E1] font-medium hover:underline">
+              Get your Clarity report →
+            </Link>
+            <Link href="/goals" className="text-[#4169E1] font-medium hover:underline">
+              Your goals →
+            </Link>
+          </div>
+
           {/* Footer */}
           <div className="text-center mt-8 animate-fadeIn">
             <p className="text-sm text-gray-500">
@@ -0,0 +1,272 @@
+'use client';
+
+import Link from 'next/link';
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import VoiceInterface, { VoiceInterfaceHandle } from '@/app/components/voice/VoiceInterface';
+import CaseyLogo from '@/app/components/CaseyLogo';
+import AnimatedShapes from '@/app/components/AnimatedShapes';
+import { listResumes, saveResumeChecklist, uploadResume } from '@/app/lib/api/resumes';
+import {
+  buildChecklistPrompt,
+  buildResumeInstructions,
+  buildReviewStartPrompt,
+  formatResumeContext
+} from '@/app/lib/resume/prompts';
+import { createResumeTools } from '@/app/lib/resume/tools';
+import { Resume, ResumeChecklistItem } from '@/app/lib/storage/types';
+import { getUserId } from '@/app/lib/utils/user-id';
+
+export default function ResumePage() {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [selected, setSelected] = useState<Resume | null>(null);
+  const [targetRole, setTargetRole] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const voiceRef = useRef<VoiceInterfaceHandle | null>(null);
+  // Resumes already added to the conversation
+  const sharedRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    listResumes(getUserId())
+      .then(loaded => {
+        setResumes(loaded);
+        setSelected(current => current || loaded[0] || null);
+      })
+      .catch(err => console.error('Failed to load resumes:', err));
+  }, []);
+
+  // The checklist tool outlives renders; it saves onto the current resume
+  const selectedRef = useRef<Resume | null>(null);
+  selectedRef.current = selected;
+
+  const applySaved = (resume: Resume) => {
+    setSelected(resume);
+    setResumes(prev => prev.map(r => r.id === resume.id ? resume : r));
+  };
+
+  const tools = useMemo(() => createResumeTools(async ({ items }) => {
+    const resume = selectedRef.current;
+    if (!resume) {
+      throw new Error('No resume is selected');
+    }
+    const checklist: ResumeChecklistItem[] = items.map(item => ({
+      id: uuidv4(),
+      section: item.section,
+      text: item.text,
+      done: false
+    }));
+    applySaved(await saveResumeChecklist(getUserId(), resume.id, checklist));
+    return checklist.length;
+  }), []);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const resume = await uploadResume(getUserId(), file);
+      setResumes(prev => [resume, ...prev]);
+      setSelected(resume);
+      setIsReviewing(false);
+    } catch (err) {
+      console.error('Failed to upload resume:', err);
+      setError(err instanceof Error ? err.message : 'Could not upload your resume');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const ask = (instructions: string): boolean => {
+    const sent = voiceRef.current?.requestResponse(instructions) || false;
+    setNotice(sent ? null : 'Tap the microphone to connect to CASEY first.');
+    return sent;
+  };
+
+  const handleReview = () => {
+    if (!selected) return;
+    // Queued until the session connects if it hasn't yet
+    if (!sharedRef.current.has(selected.id)) {
+      voiceRef.current?.addContext(formatResumeContext(selected));
+      sharedRef.current.add(selected.id);
+    }
+    if (ask(buildReviewStartPrompt(targetRole.trim() || undefined))) {
+      setIsReviewing(true);
+    }
+  };
+
+  const handleChecklist = () => {
+    ask(buildChecklistPrompt(targetRole.trim() || undefined));
+  };
+
+  const toggleItem = async (id: string) => {
+    if (!selected) return;
+    const checklist = selected.checklist.map(item => item.id === id ? { ...item, done: !item.done } : item);
+    setSelected({ ...selected, checklist });
+    try {
+      applySaved(await saveResumeChecklist(getUserId(), selected.id, checklist));
+    } catch (err) {
+      console.error('Failed to update checklist:', err);
+      setError('Could not save your checklist. Please try again.');
+    }
+  };
+
+  const done = selected?.checklist.filter(item => item.done).length || 0;
+
+  return (
+    <main className="min-h-screen relative overflow-hidden">
+      <div className="absolute inset-0 casey-gradient-bg opacity-40" />
+      <AnimatedShapes />
+
+      <div className="relative z-10 container mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        <div className="flex flex-col items-center space-y-8 max-w-lg mx-auto">
+          <div className="w-full flex items-center gap-4">
+            <Link
+              href="/"
+              className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-[#4169E1] hover:bg-gray-300 transition-all"
+              aria-label="Back to home"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <span className="text-lg font-medium text-[#4169E1]">Resume Review</span>
+          </div>
+
+          <CaseyLogo size="small" />
+
+          <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 sm:p-8 space-y-6">
+            <div className="text-center space-y-2">
+              <h1 className="text-2xl font-bold text-[#4169E1]">Talk through your resume with CASEY</h1>
+              <p className="text-gray-600">Upload a PDF, Word (.docx) or text file. CASEY reviews it out loud and leaves you a checklist.</p>
+            </div>
+
+            <div className="space-y-3">
+              <label
+                className={`block w-full px-6 py-3 text-center border-2 border-dashed border-[#B8C5FF] rounded-[var(--radius-sm)] text-[#4169E1] cursor-pointer hover:bg-[#E6E9FF] transition-all ${isUploading ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                {isUploading ? 'Reading your resume...' : 'Choose a resume file'}
+                <input
+                  type="file"
+                  accept=".pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+                  onChange={handleFile}
+                  className="sr-only"
+                />
+              </label>
+
+              {resumes.length > 1 && (
+                <select
+                  value={selected?.id || ''}
+                  onChange={event => setSelected(resumes.find(r => r.id === event.target.value) || null)}
+                  aria-label="Uploaded resumes"
+                  className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] bg-white focus:outline-none focus:border-[#4169E1]"
+                >
+                  {resumes.map(resume => (
+                    <option key={resume.id} value={resume.id}>
+                      {resume.fileName} ({new Date(resume.uploadedAt).toLocaleDateString()})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {selected && (
+              <>
+                <details className="text-sm text-gray-700">
+                  <summary className="cursor-pointer text-gray-600">
+                    Text CASEY will see from {selected.fileName}
+                    {selected.truncated && ' (shortened)'}
+                  </summary>
+                  <pre className="mt-2 max-h-64 overflow-y-auto whitespace-pre-wrap font-sans p-3 bg-gray-50 rounded-[var(--radius-sm)]">
+                    {selected.text}
+                  </pre>
+                </details>
+
+                <div className="space-y-2">
+                  <label htmlFor="resume-target" className="block text-sm font-medium text-gray-700">
+                    Role you&apos;re applying for (optional)
+                  </label>
+                  <input
+                    id="resume-target"
+                    value={targetRole}
+                    onChange={event => setTargetRole(event.target.value)}
+                    placeholder="e.g. Marketing internship"
+                    className="w-full p-3 border border-gray-200 rounded-[var(--radius-sm)] focus:outline-none focus:border-[#4169E1]"
+                  />
+                </div>
+
+                <VoiceInterface
+                  ref={voiceRef}
+                  extraInstructions={buildResumeInstructions(targetRole.trim() || undefined)}
+                  includeEngagement={false}
+                  tools={tools}
+                />
+
+                {notice && (
+                  <p className="text-center text-sm text-gray-600">{notice}</p>
+                )}
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleReview}
+                    className="flex-1 px-6 py-3 bg-[#4169E1] text-white rounded-full hover:bg-[#3051B8] transition-all"
+                  >
+                    {isReviewing ? 'Restart review' : 'Review with CASEY →'}
+                  </button>
+                  {isReviewing && (
+                    <button
+                      onClick={handleChecklist}
+                      className="flex-1 px-6 py-3 bg-white text-[#4169E1] border-2 border-[#4169E1] rounded-full hover:bg-[#E6E9FF] transition-all"
+                    >
+                      Make my checklist
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+
+            {error && (
+              <div className="p-4 bg-red-50 border border-red-200 rounded-[var(--radius-sm)]">
+                <p className="text-red-700">{error}</p>
+              </div>
+            )}
+          </div>
+
+          {selected && selected.checklist.length > 0 && (
+            <div className="w-full bg-white/90 backdrop-blur-md rounded-3xl shadow-xl p-6 space-y-4">
+              <div className="flex justify-between items-baseline">
+                <h2 className="text-lg font-semibold text-gray-800">Revision checklist</h2>
+                <span className="text-sm text-gray-600">{done}/{selected.checklist.length} done</span>
+              </div>
+              <ul className="space-y-2">
+                {selected.checklist.map(item => (
+                  <li key={item.id}>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={item.done}
+                        onChange={() => toggleItem(item.id)}
+                        className="mt-1 accent-[#4169E1]"
+                      />
+                      <span className={item.done ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                        <span className="text-xs font-semibold uppercase text-[#4169E1] mr-2">{item.section}</span>
+                        {item.text}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
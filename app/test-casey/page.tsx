@@ -1,12 +1,14 @@
 'use client'
 
 import { useState } from 'react'
-import { CaseyRealtimeClient } from '@/app/lib/openai/casey-realtime-client'
+import { RealtimeSession } from '@/app/lib/openai/realtime-session'
+import { createTokenProvider } from '@/app/lib/openai/token-provider'
+import { DEFAULT_SERVER_VAD } from '@/app/lib/openai/turn-detection'
 
 export default function TestCaseyPage() {
   const [status, setStatus] = useState<string>('Not connected')
   const [logs, setLogs] = useState<string[]>([])
-  const [client, setClient] = useState<CaseyRealtimeClient | null>(null)
+  const [client, setClient] = useState<RealtimeSession | null>(null)
   
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString()
@@ -15,30 +17,16 @@ export default function TestCaseyPage() {
 
   const testConnection = async () => {
     try {
-      addLog('Fetching API key...')
-      
-      // Get API key from server
-      const response = await fetch('/api/realtime', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config: {} })
-      })
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch API key')
-      }
-      
-      const data = await response.json()
-      const apiKey = data.apiKey
-      
-      addLog(`Got API key: ${apiKey.substring(0, 10)}...`)
       addLog('Creating client...')
       
-      const newClient = new CaseyRealtimeClient(apiKey)
+      // The session fetches a short-lived client secret from the server
+      const newClient = new RealtimeSession({
+        transport: { type: 'websocket', tokenProvider: createTokenProvider() }
+      })
       
       // Set up event handlers
-      newClient.on('session.created', (event: { session?: { id?: string } }) => {
-        addLog(`Session created: ${event.session?.id || 'unknown'}`)
+      newClient.on('session.created', (session: { id?: string }) => {
+        addLog(`Session created: ${session?.id || 'unknown'}`)
       })
       
       newClient.on('session.updated', () => {
@@ -50,8 +38,8 @@ export default function TestCaseyPage() {
         setStatus('Error occurred')
       })
       
-      newClient.on('*', (event: Record<string, unknown>) => {
-        addLog(`Event: ${event.type as string}`)
+      newClient.on('*', (event) => {
+        addLog(`Event: ${event.type}`)
       })
       
       addLog('Connecting to OpenAI Realtime API...')
@@ -73,12 +61,7 @@ export default function TestCaseyPage() {
           input_audio_transcription: {
             model: 'whisper-1'
           },
-          turn_detection: {
-            type: 'server_vad',
-            threshold: 0.5,
-            prefix_padding_ms: 300,
-            silence_duration_ms: 200
-          },
+          turn_detection: DEFAULT_SERVER_VAD,
           temperature: 0.8
         })
         addLog('Session configuration sent')
@@ -92,22 +75,19 @@ export default function TestCaseyPage() {
   }
 
   const sendTestMessage = () => {
-    if (!client || !client.isConnected()) {
+    if (!client || !client.getConnectionStatus()) {
       alert('Not connected')
       return
     }
     
     addLog('Sending test message...')
-    client.send({
-      type: 'conversation.item.create',
-      item: {
-        type: 'message',
-        role: 'user',
-        content: [{
-          type: 'input_text',
-          text: 'Hello CASEY!'
-        }]
-      }
+    client.createConversationItem({
+      type: 'message',
+      role: 'user',
+      content: [{
+        type: 'input_text',
+        text: 'Hello CASEY!'
+      }]
     })
     
     setTimeout(() => {
@@ -128,7 +108,7 @@ export default function TestCaseyPage() {
             <button 
               onClick={testConnection}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              disabled={client?.isConnected()}
+              disabled={client?.getConnectionStatus()}
             >
               Test Connection
             </button>
@@ -136,7 +116,7 @@ export default function TestCaseyPage() {
             <button 
               onClick={sendTestMessage}
               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700"
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
             >
               Send Test Message
             </button>
@@ -1,55 +1,27 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { ExactRealtimeClient } from '@/app/lib/openai/exact-realtime-client'
+import { useState } from 'react'
+import { RealtimeSession } from '@/app/lib/openai/realtime-session'
+import { createTokenProvider } from '@/app/lib/openai/token-provider'
 
 export default function TestExactPage() {
   const [status, setStatus] = useState<string>('Not connected')
   const [logs, setLogs] = useState<string[]>([])
-  const [apiKey, setApiKey] = useState<string>('')
-  
-  useEffect(() => {
-    // Get API key from environment
-    const key = process.env.NEXT_PUBLIC_OPENAI_API_KEY || ''
-    if (key) {
-      setApiKey(key)
-      addLog('Using public API key from environment')
-    } else {
-      // Fetch from server
-      fetch('/api/realtime', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config: {} })
-      })
-      .then(res => res.json())
-      .then(data => {
-        setApiKey(data.apiKey)
-        addLog('API key fetched from server')
-      })
-      .catch(err => {
-        addLog(`Failed to fetch API key: ${err}`)
-      })
-    }
-  }, [])
   
   const addLog = (message: string) => {
     setLogs(prev => [...prev, `${new Date().toISOString()}: ${message}`])
   }
 
   const testConnection = async () => {
-    if (!apiKey) {
-      addLog('No API key available')
-      return
-    }
-
     try {
-      addLog(`Using API key: ${apiKey.substring(0, 10)}...`)
-      addLog('Creating ExactRealtimeClient...')
-      const client = new ExactRealtimeClient(apiKey)
+      addLog('Creating WebSocket session...')
+      const client = new RealtimeSession({
+        transport: { type: 'websocket', tokenProvider: createTokenProvider() }
+      })
       
       // Log all events
-      client.on('*', (event: Record<string, unknown>) => {
-        addLog(`Event: ${event.type as string}`)
+      client.on('*', (event) => {
+        addLog(`Event: ${event.type}`)
       })
 
       client.on('error', (error: unknown) => {
@@ -65,7 +37,7 @@ export default function TestExactPage() {
       // Test sending a message
       setTimeout(() => {
         addLog('Sending session update...')
-        client.send({
+        client.sendEvent({
           type: 'session.update',
           session: {
             modalities: ['text', 'audio'],
@@ -134,15 +106,11 @@ export default function TestExactPage() {
         
         <div className="bg-white rounded-lg shadow p-6 mb-4">
           <p className="mb-4">Status: <span className="font-bold">{status}</span></p>
-          <p className="mb-4 text-sm text-gray-600">
-            API Key: {apiKey ? `${apiKey.substring(0, 10)}...` : 'Not loaded'}
-          </p>
           
           <div className="space-x-2">
             <button 
               onClick={testConnection}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-              disabled={!apiKey}
             >
               Test Connection
             </button>
@@ -1,12 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { ProxyRealtimeClient } from '@/app/lib/openai/proxy-realtime-client';
+import { RealtimeSession } from '@/app/lib/openai/realtime-session';
 
 export default function TestProxyPage() {
   const [status, setStatus] = useState<string>('Not connected');
   const [logs, setLogs] = useState<string[]>([]);
-  const [client, setClient] = useState<ProxyRealtimeClient | null>(null);
+  const [client, setClient] = useState<RealtimeSession | null>(null);
   
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
@@ -17,7 +17,7 @@ export default function TestProxyPage() {
     try {
       addLog('Creating proxy client...');
       
-      const newClient = new ProxyRealtimeClient();
+      const newClient = new RealtimeSession({ transport: { type: 'proxy' } });
       
       // Set up event handlers
       newClient.on('connected', () => {
@@ -25,8 +25,7 @@ export default function TestProxyPage() {
         setStatus('Connected via proxy!');
       });
       
-      newClient.on('session.created', (event: Record<string, unknown>) => {
-        const session = event.session as { id?: string } | undefined;
+      newClient.on('session.created', (session: { id?: string } | undefined) => {
         addLog(`Session created: ${session?.id || 'unknown'}`);
       });
       
@@ -39,17 +38,14 @@ export default function TestProxyPage() {
         setStatus('Error occurred');
       });
       
-      newClient.on('disconnected', (event: Record<string, unknown>) => {
-        const code = event.code as number | undefined;
-        const reason = event.reason as string | undefined;
-        addLog(`Disconnected: code=${code}, reason=${reason}`);
+      newClient.on('disconnected', (event: { code?: number; reason?: string }) => {
+        addLog(`Disconnected: code=${event.code}, reason=${event.reason}`);
         setStatus('Disconnected');
       });
       
-      newClient.on('*', (event: Record<string, unknown>) => {
-        const eventType = event.type as string | undefined;
-        if (eventType && !['error', 'connected', 'disconnected'].includes(eventType)) {
-          addLog(`Event: ${eventType}`);
+      newClient.on('*', (event) => {
+        if (event.type !== 'error') {
+          addLog(`Event: ${event.type}`);
         }
       });
       
@@ -79,13 +75,13 @@ export default function TestProxyPage() {
   };
 
   const sendTestMessage = () => {
-    if (!client || !client.isConnected()) {
+    if (!client || !client.getConnectionStatus()) {
       alert('Not connected');
       return;
     }
     
     addLog('Sending test message...');
-    client.send({
+    client.sendEvent({
       type: 'conversation.item.create',
       item: {
         type: 'message',
@@ -126,7 +122,7 @@ export default function TestProxyPage() {
             <button 
               onClick={testConnection}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
-              disabled={client?.isConnected()}
+              disabled={client?.getConnectionStatus()}
             >
               Connect via Proxy
             </button>
@@ -134,7 +130,7 @@ export default function TestProxyPage() {
             <button 
               onClick={sendTestMessage}
               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
             >
               Send Test Message
             </button>
@@ -142,7 +138,7 @@ export default function TestProxyPage() {
             <button 
               onClick={disconnect}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
             >
               Disconnect
             </button>
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { RealtimeClient } from '@/app/lib/openai/realtime-client';
+import { RealtimeSession } from '@/app/lib/openai/realtime-session';
+import { createTokenProvider } from '@/app/lib/openai/token-provider';
 
 export default function TestRealtime() {
   const [status, setStatus] = useState('Initializing...');
@@ -16,26 +17,11 @@ export default function TestRealtime() {
     
     const testConnection = async () => {
       try {
-        setStatus('Fetching API key...');
-        
-        // Get API key from server
-        const response = await fetch('/api/realtime', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ config: {} })
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch API configuration');
-        }
-        
-        const data = await response.json();
-        
         setStatus('Connecting to OpenAI RealTime API...');
         
-        // Create client
-        const client = new RealtimeClient({
-          apiKey: data.apiKey,
+        // Create client; it fetches an ephemeral session token from the server
+        const client = new RealtimeSession({
+          transport: { type: 'webrtc', tokenProvider: createTokenProvider() },
           debug: true
         });
         
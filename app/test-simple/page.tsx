@@ -1,51 +1,27 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { SimpleRealtimeClient } from '@/app/lib/openai/simple-realtime-client';
+import { useState } from 'react';
+import { RealtimeSession } from '@/app/lib/openai/realtime-session';
+import { createTokenProvider } from '@/app/lib/openai/token-provider';
+import { DEFAULT_SERVER_VAD } from '@/app/lib/openai/turn-detection';
 
 export default function TestSimple() {
-  const [status, setStatus] = useState('Initializing...');
-  const [apiKey, setApiKey] = useState('');
+  const [status, setStatus] = useState('Not connected');
   const [events, setEvents] = useState<string[]>([]);
-  const [client, setClient] = useState<SimpleRealtimeClient | null>(null);
-
-  useEffect(() => {
-    const fetchApiKey = async () => {
-      try {
-        const response = await fetch('/api/realtime/connect', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({})
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch API key');
-        }
-        
-        const data = await response.json();
-        setApiKey(data.apiKey);
-        addEvent('API key fetched');
-      } catch (error) {
-        console.error('Failed to fetch API key:', error);
-        setStatus('Failed to fetch API key');
-      }
-    };
-    
-    fetchApiKey();
-  }, []);
-
+  const [client, setClient] = useState<RealtimeSession | null>(null);
 
   const testConnection = async () => {
-    if (!apiKey) {
-      alert('No API key available');
-      return;
-    }
-
     try {
       setStatus('Connecting...');
       addEvent('Creating client...');
       
-      const newClient = new SimpleRealtimeClient(apiKey, { debug: true });
+      const newClient = new RealtimeSession({
+        transport: {
+          type: 'websocket',
+          tokenProvider: createTokenProvider({ endpoint: '/api/realtime/connect' })
+        },
+        debug: true
+      });
       
       // Set up event listeners
       newClient.on('connected', () => {
@@ -62,20 +38,15 @@ export default function TestSimple() {
           input_audio_transcription: {
             model: 'whisper-1'
           },
-          turn_detection: {
-            type: 'server_vad',
-            threshold: 0.5,
-            prefix_padding_ms: 300,
-            silence_duration_ms: 200
-          },
+          turn_detection: DEFAULT_SERVER_VAD,
           temperature: 0.8
         });
         
         addEvent('Session configuration sent');
       });
       
-      newClient.on('session.created', (data: { session?: { id?: string } }) => {
-        addEvent(`Session created: ${data.session?.id || 'unknown'}`);
+      newClient.on('session.created', (session: { id?: string }) => {
+        addEvent(`Session created: ${session?.id || 'unknown'}`);
       });
       
       newClient.on('session.updated', () => {
@@ -105,12 +76,12 @@ export default function TestSimple() {
   };
 
   const sendTestMessage = () => {
-    if (!client || !client.isConnected()) {
+    if (!client || !client.getConnectionStatus()) {
       alert('Not connected');
       return;
     }
     
-    client.send({
+    client.sendEvent({
       type: 'conversation.item.create',
       item: {
         type: 'message',
@@ -151,7 +122,7 @@ export default function TestSimple() {
           <div className="space-x-4">
             <button
               onClick={testConnection}
-              disabled={!apiKey || client?.isConnected()}
+              disabled={client?.getConnectionStatus()}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
             >
               Connect
@@ -159,7 +130,7 @@ export default function TestSimple() {
             
             <button
               onClick={sendTestMessage}
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
             >
               Send Test Message
@@ -167,7 +138,7 @@ export default function TestSimple() {
             
             <button
               onClick={disconnect}
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
             >
               Disconnect
@@ -1,88 +1,60 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { RealtimeWebRTCClient } from '@/app/lib/openai/realtime-webrtc-client'
+import { useState } from 'react'
+import { RealtimeSession } from '@/app/lib/openai/realtime-session'
+import { createTokenProvider } from '@/app/lib/openai/token-provider'
 
 export default function TestWebRTCPage() {
   const [status, setStatus] = useState<string>('Not connected')
   const [logs, setLogs] = useState<string[]>([])
-  const [client, setClient] = useState<RealtimeWebRTCClient | null>(null)
-  const [apiKey, setApiKey] = useState<string>('')
+  const [client, setClient] = useState<RealtimeSession | null>(null)
   const [transcripts, setTranscripts] = useState<{user: string[], assistant: string[]}>({
     user: [],
     assistant: []
   })
   
-  useEffect(() => {
-    // Get API key from environment
-    const key = process.env.NEXT_PUBLIC_OPENAI_API_KEY || ''
-    if (key) {
-      setApiKey(key)
-      addLog('Using public API key from environment')
-    } else {
-      // Fetch from server
-      fetch('/api/realtime', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config: {} })
-      })
-      .then(res => res.json())
-      .then(data => {
-        setApiKey(data.apiKey)
-        addLog('API key fetched from server')
-      })
-      .catch(err => {
-        addLog(`Failed to fetch API key: ${err}`)
-      })
-    }
-  }, [])
-  
   const addLog = (message: string) => {
     setLogs(prev => [...prev, `${new Date().toISOString()}: ${message}`])
   }
 
   const testWebRTCConnection = async () => {
-    if (!apiKey) {
-      addLog('No API key available')
-      return
-    }
-
     try {
-      addLog(`Using API key: ${apiKey.substring(0, 10)}...`)
-      addLog('Creating WebRTC client...')
-      const newClient = new RealtimeWebRTCClient(apiKey)
+      addLog('Creating WebRTC session...')
+      const newClient = new RealtimeSession({
+        transport: { type: 'webrtc', tokenProvider: createTokenProvider() }
+      })
       
       // Set up event handlers
-      newClient.on('*', (event: Record<string, unknown>) => {
-        const eventType = event.type as string;
-        addLog(`Event: ${eventType}`)
+      newClient.on('*', (event) => {
+        addLog(`Event: ${event.type}`)
         
         // Track conversation items
-        if (eventType === 'conversation.item.created') {
-          const item = event.item as { role?: string } | undefined;
-          if (item?.role === 'user') {
+        if (event.type === 'conversation.item.created') {
+          if (event.item.role === 'user') {
             addLog(`User message created`)
-          } else if (item?.role === 'assistant') {
+          } else if (event.item.role === 'assistant') {
             addLog(`Assistant message created`)
           }
         }
         
         // Track transcriptions
-        if (eventType === 'conversation.item.input_audio_transcription.completed') {
-          const transcript = event.transcript as string | undefined;
-          addLog(`User said: "${transcript}"`)
+        if (event.type === 'conversation.item.input_audio_transcription.completed') {
+          addLog(`User said: "${event.transcript}"`)
           setTranscripts(prev => ({
             ...prev,
-            user: [...prev.user, transcript || '']
+            user: [...prev.user, event.transcript]
           }))
         }
         
-        if (eventType === 'response.audio_transcript.delta') {
-          const delta = event.delta as string | undefined;
-          addLog(`Assistant says: "${delta}"`)
+        if (event.type === 'response.audio_transcript.delta') {
+          addLog(`Assistant says: "${event.delta}"`)
         }
       })
 
+      newClient.on('protocol_error', (error) => {
+        addLog(`Protocol error (${error.reason}): ${error.problems.join('; ')}`)
+      })
+
       newClient.on('error', (error: unknown) => {
         addLog(`Error: ${JSON.stringify(error)}`)
         setStatus('Error occurred')
@@ -131,7 +103,7 @@ export default function TestWebRTCPage() {
   }
   
   const sendTextMessage = () => {
-    if (!client || !client.isConnected()) {
+    if (!client || !client.getConnectionStatus()) {
       alert('Not connected')
       return
     }
@@ -139,7 +111,7 @@ export default function TestWebRTCPage() {
     const message = "I'm a computer science student interested in AI. What career paths would you recommend?"
     addLog(`Sending text message: "${message}"`)
     
-    client.send({
+    client.sendEvent({
       type: 'conversation.item.create',
       item: {
         type: 'message',
@@ -177,15 +149,12 @@ export default function TestWebRTCPage() {
           <p className="mb-4">
             Status: <span className="font-bold text-blue-600">{status}</span>
           </p>
-          <p className="mb-4 text-sm text-gray-600">
-            API Key: {apiKey ? `${apiKey.substring(0, 10)}...` : 'Not loaded'}
-          </p>
           
           <div className="space-x-2">
             <button 
               onClick={testWebRTCConnection}
               className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
-              disabled={!apiKey || client?.isConnected()}
+              disabled={client?.getConnectionStatus()}
             >
               Connect via WebRTC
             </button>
@@ -193,7 +162,7 @@ export default function TestWebRTCPage() {
             <button 
               onClick={sendTextMessage}
               className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
             >
               Send Test Message
             </button>
@@ -201,7 +170,7 @@ export default function TestWebRTCPage() {
             <button 
               onClick={disconnect}
               className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400"
-              disabled={!client?.isConnected()}
+              disabled={!client?.getConnectionStatus()}
             >
               Disconnect
             </button>
@@ -0,0 +1,36 @@
+// Runs on the audio rendering thread. Downmixes the microphone to mono and
+// posts it to the main thread in ~20 ms batches; resampling and PCM16
+// conversion happen in Pcm16Encoder (app/lib/utils/audio.ts).
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.batch = new Float32Array(Math.round(sampleRate * 0.02));
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+
+    const frames = channels[0].length;
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (const channel of channels) {
+        sum += channel[i];
+      }
+      this.batch[this.length++] = sum / channels.length;
+
+      if (this.length === this.batch.length) {
+        this.port.postMessage(this.batch, [this.batch.buffer]);
+        this.batch = new Float32Array(this.batch.length);
+        this.length = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
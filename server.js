@@ -2,11 +2,28 @@ const { createServer } = require('http');
 const { parse } = require('url');
 const next = require('next');
 const WebSocket = require('ws');
+// Shared with the app, so the proxy uses the same personas and model
+const prompts = require('./app/lib/prompts/registry.json');
+const vadPresets = require('./app/lib/openai/vad-presets.json');
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
 const port = process.env.PORT || 3001;
 
+// Latest version of a persona, with its name filled in. The full template
+// renderer lives in app/lib/prompts/registry.ts; personas only use
+// {{personaName}} before profile variables are known.
+function personaInstructions(id) {
+  const latest = prompts.personas[id].reduce((a, b) => (b.version > a.version ? b : a));
+  return latest.instructions.join('\n').replace(/\{\{\s*personaName\s*\}\}/g, latest.name);
+}
+
+// A preset from vad-presets.json as a session turn_detection config
+function serverVad(preset) {
+  const { threshold, prefix_padding_ms, silence_duration_ms } = vadPresets.presets[preset];
+  return { type: 'server_vad', threshold, prefix_padding_ms, silence_duration_ms };
+}
+
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
 
@@ -37,7 +54,7 @@ app.prepare().then(() => {
 
     // Connect to OpenAI RealTime API
     const openaiWs = new WebSocket(
-      'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-10-01',
+      `wss://api.openai.com/v1/realtime?model=${prompts.model}`,
       {
         headers: {
           'Authorization': `Bearer ${apiKey}`,
@@ -46,6 +63,10 @@ app.prepare().then(() => {
       }
     );
 
+    // Client messages sent before OpenAI accepts the connection, e.g. the
+    // page's own session.update; forwarded once it opens
+    const pending = [];
+
     openaiWs.on('open', () => {
       console.log('Connected to OpenAI RealTime API');
       
@@ -54,41 +75,21 @@ app.prepare().then(() => {
         type: 'session.update',
         session: {
           modalities: ['text', 'audio'],
-          instructions: `You are CASEY, a helpful and encouraging career advisor for students. 
-            Your role is to:
-            - Help students explore career paths based on their interests and skills
-            - Provide information about different careers and industries
-            - Assist with job searching and application strategies
-            - Offer interview preparation and practice
-            - Guide resume and cover letter creation
-            - Give advice on professional development and networking
-            - Be supportive, encouraging, and empathetic
-            - Use simple, clear language appropriate for students
-            - Ask clarifying questions to better understand student needs
-            - Provide actionable advice and next steps
-            
-            Language capability:
-            - You can communicate fluently in multiple languages
-            - If a user asks you to speak in a different language (e.g., "Can you speak in Urdu?", "Talk to me in Spanish", "Switch to French"), immediately switch to that language
-            - Continue the conversation in the requested language until asked to switch again
-            - Maintain the same helpful, encouraging tone regardless of language
-            - If you don't know a requested language well, politely explain this in the current language`,
+          instructions: personaInstructions(prompts.defaultPersona),
           voice: 'alloy',
           input_audio_format: 'pcm16',
           output_audio_format: 'pcm16',
           input_audio_transcription: {
             model: 'whisper-1'
           },
-          turn_detection: {
-            type: 'server_vad',
-            threshold: 0.5,
-            prefix_padding_ms: 300,
-            silence_duration_ms: 200
-          },
+          turn_detection: serverVad(vadPresets.defaultPreset),
           temperature: 0.8,
           max_response_output_tokens: 'inf'
         }
       }));
+
+      // After the defaults, so the client's own configuration wins
+      pending.splice(0).forEach(message => openaiWs.send(message));
     });
 
     openaiWs.on('message', (data) => {
@@ -104,6 +105,7 @@ app.prepare().then(() => {
         clientWs.send(JSON.stringify({
           type: 'error',
           error: {
+            type: 'proxy_error',
             message: 'Connection to OpenAI failed',
             details: error.message
           }
@@ -122,6 +124,8 @@ app.prepare().then(() => {
     clientWs.on('message', (message) => {
       if (openaiWs.readyState === WebSocket.OPEN) {
         openaiWs.send(message.toString());
+      } else if (openaiWs.readyState === WebSocket.CONNECTING) {
+        pending.push(message.toString());
       }
     });
 